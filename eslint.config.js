@@ -31,9 +31,38 @@ export default [
         HTMLButtonElement: 'readonly',
         MediaRecorder: 'readonly',
         MediaStream: 'readonly',
+        AudioContext: 'readonly',
+        AnalyserNode: 'readonly',
+        MediaStreamAudioSourceNode: 'readonly',
+        MediaStreamTrack: 'readonly',
+        MediaStreamAudioDestinationNode: 'readonly',
+        MediaTrackConstraints: 'readonly',
+        MediaTrackSettings: 'readonly',
+        AudioWorkletNode: 'readonly',
+        AudioBuffer: 'readonly',
+        AddEventListenerOptions: 'readonly',
+        EventListener: 'readonly',
+        EventTarget: 'readonly',
+        Event: 'readonly',
+        ErrorEvent: 'readonly',
+        BlobEvent: 'readonly',
+        MessageEvent: 'readonly',
+        URL: 'readonly',
+        BlobPart: 'readonly',
+        crypto: 'readonly',
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBKeyRange: 'readonly',
+        IDBRequest: 'readonly',
+        IDBTransaction: 'readonly',
         Blob: 'readonly',
         navigator: 'readonly',
-        XMLHttpRequest: 'readonly'
+        XMLHttpRequest: 'readonly',
+        WebSocket: 'readonly',
+        customElements: 'readonly',
+        CustomEvent: 'readonly',
+        ShadowRoot: 'readonly',
+        HTMLProgressElement: 'readonly'
       },
     },
     plugins: {
@@ -0,0 +1,41 @@
+/**
+ * Web Audio helpers shared by the metering and capture pipelines
+ */
+
+type AudioContextConstructor = typeof AudioContext;
+
+/**
+ * Resolve the AudioContext constructor, including the prefixed Safari variant
+ */
+export function getAudioContextClass(): AudioContextConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const scope = window as unknown as {
+    AudioContext?: AudioContextConstructor;
+    webkitAudioContext?: AudioContextConstructor;
+  };
+  return scope.AudioContext || scope.webkitAudioContext || null;
+}
+
+/**
+ * Check if the Web Audio API is available in this browser
+ */
+export function isWebAudioSupported(): boolean {
+  return getAudioContextClass() !== null;
+}
+
+/**
+ * Decode an encoded audio blob into PCM samples
+ */
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const AudioContextClass = getAudioContextClass();
+  if (!AudioContextClass) {
+    throw new Error('Web Audio API is not available');
+  }
+
+  const context = new AudioContextClass();
+  try {
+    return await context.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    context.close().catch(() => {});
+  }
+}
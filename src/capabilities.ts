@@ -0,0 +1,70 @@
+/**
+ * VocaFuse Capability Detection
+ *
+ * Structured report of the recording features available in this browser.
+ */
+
+import { isWebAudioSupported } from './audio-context.js';
+import { isDeviceEnumerationSupported } from './devices.js';
+import { PcmRecorder } from './pcm-recorder.js';
+import { DEFAULT_MIME_TYPES } from './recorder.js';
+
+export interface Capabilities {
+  mediaRecorder: boolean;
+  getUserMedia: boolean;
+  mimeTypes: string[]; // Supported MediaRecorder MIME types, preferred first
+  containers: string[]; // e.g. ['webm', 'ogg']
+  codecs: string[]; // e.g. ['opus']
+  defaultMimeType: string | null; // What a recorder picks without preferences
+  pauseSupported: boolean;
+  webAudio: boolean;
+  audioWorklet: boolean; // WAV engine available
+  permissionsApi: boolean;
+  deviceEnumeration: boolean;
+  secureContext: boolean;
+}
+
+// Probed in addition to the default list so the report covers every usable format
+const PROBED_MIME_TYPES = [
+  ...DEFAULT_MIME_TYPES,
+  'audio/ogg',
+  'audio/webm;codecs=pcm',
+  'audio/mp4;codecs=opus',
+  'audio/mpeg',
+  'audio/wav'
+];
+
+/**
+ * Detect the recording capabilities of the current browser
+ */
+export function getCapabilities(): Capabilities {
+  const hasMediaRecorder = typeof MediaRecorder !== 'undefined';
+  const mimeTypes = hasMediaRecorder
+    ? PROBED_MIME_TYPES.filter(type => MediaRecorder.isTypeSupported(type))
+    : [];
+  const defaultMimeType = DEFAULT_MIME_TYPES.find(type => mimeTypes.includes(type)) || null;
+
+  const containers = new Set<string>();
+  const codecs = new Set<string>();
+  mimeTypes.forEach(type => {
+    const [container, params] = type.split(';');
+    containers.add(container.replace('audio/', ''));
+    const codec = params?.match(/codecs=([^,]+)/)?.[1];
+    if (codec) codecs.add(codec);
+  });
+
+  return {
+    mediaRecorder: hasMediaRecorder,
+    getUserMedia: typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getUserMedia === 'function',
+    mimeTypes,
+    containers: [...containers],
+    codecs: [...codecs],
+    defaultMimeType,
+    pauseSupported: hasMediaRecorder && typeof MediaRecorder.prototype.pause === 'function',
+    webAudio: isWebAudioSupported(),
+    audioWorklet: PcmRecorder.isSupported(),
+    permissionsApi: typeof navigator !== 'undefined' && typeof navigator.permissions?.query === 'function',
+    deviceEnumeration: isDeviceEnumerationSupported(),
+    secureContext: typeof window !== 'undefined' && window.isSecureContext === true
+  };
+}
@@ -88,6 +88,11 @@ export class HttpClient {
         return await this.processResponse<T>(response);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+
+        // Aborted by the caller's signal, not a timeout: never retry
+        if (options.signal?.aborted) {
+          throw new NetworkError('Request cancelled', lastError, false, { url: fullUrl, cancelled: true });
+        }
         
         // Don't retry on the last attempt or for non-retryable errors
         if (attempt === maxAttempts || !this.shouldRetry(lastError, attempt)) {
@@ -171,7 +176,8 @@ export class HttpClient {
 
     // Combine signals if provided
     if (options.signal) {
-      options.signal.addEventListener('abort', () => controller.abort());
+      if (options.signal.aborted) controller.abort();
+      else options.signal.addEventListener('abort', () => controller.abort(), { once: true });
     }
 
     return {
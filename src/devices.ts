@@ -0,0 +1,62 @@
+/**
+ * VocaFuse Audio Input Devices
+ *
+ * Enumeration of microphones and devicechange notifications.
+ */
+
+export interface AudioInputDevice {
+  deviceId: string;
+  groupId: string;
+  label: string; // Empty until microphone permission has been granted
+}
+
+/**
+ * Check if device enumeration is supported in this browser
+ */
+export function isDeviceEnumerationSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.enumerateDevices === 'function';
+}
+
+/**
+ * List the audio input devices currently available
+ */
+export async function listAudioInputDevices(): Promise<AudioInputDevice[]> {
+  if (!isDeviceEnumerationSupported()) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map(device => ({
+      deviceId: device.deviceId,
+      groupId: device.groupId,
+      label: device.label
+    }));
+}
+
+/**
+ * Subscribe to audio input device changes (plug/unplug)
+ *
+ * Returns an unsubscribe function.
+ */
+export function watchAudioInputDevices(listener: (devices: AudioInputDevice[]) => void): () => void {
+  if (!isDeviceEnumerationSupported()) return () => {};
+
+  const handleChange = () => {
+    listAudioInputDevices().then(listener).catch(() => {});
+  };
+
+  navigator.mediaDevices.addEventListener('devicechange', handleChange);
+  return () => navigator.mediaDevices.removeEventListener('devicechange', handleChange);
+}
+
+/**
+ * Describe the device behind a captured track
+ */
+export function describeTrackDevice(track: MediaStreamTrack): AudioInputDevice {
+  const settings = track.getSettings();
+  return {
+    deviceId: settings.deviceId || '',
+    groupId: settings.groupId || '',
+    label: track.label
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Minimal typed event emitter. `Events` maps event names to listener argument tuples.
+ */
+
+export type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+export class TypedEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+  private onceWrappers = new WeakMap<object, object>(); // once() listener -> its wrapper
+
+  /**
+   * Add a listener; returns a function that removes it
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const wrapper: Listener<Events[K]> = (...args) => {
+      this.off(event, listener);
+      listener(...args);
+    };
+    this.onceWrappers.set(listener, wrapper);
+    return this.on(event, wrapper);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const set = this.listeners[event];
+    if (!set) return;
+
+    const wrapper = this.onceWrappers.get(listener);
+    if (wrapper) {
+      this.onceWrappers.delete(listener);
+      set.delete(wrapper as Listener<Events[K]>);
+    }
+    set.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    const set = this.listeners[event];
+    if (!set) return;
+
+    // Copy so listeners can remove themselves while we iterate
+    for (const listener of [...set]) {
+      listener(...args);
+    }
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
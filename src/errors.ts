@@ -21,9 +21,15 @@ export enum ErrorCode {
   RECORDING_NOT_SUPPORTED = 'RECORDING_NOT_SUPPORTED',
   RECORDING_FAILED = 'RECORDING_FAILED',
   RECORDING_TOO_LONG = 'RECORDING_TOO_LONG',
+  DEVICE_NOT_FOUND = 'DEVICE_NOT_FOUND',
+  STORAGE_FAILED = 'STORAGE_FAILED',
+  
+  // Transcription errors
+  TRANSCRIPTION_FAILED = 'TRANSCRIPTION_FAILED',
   
   // Upload errors
   UPLOAD_FAILED = 'UPLOAD_FAILED',
+  UPLOAD_CANCELLED = 'UPLOAD_CANCELLED',
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
   INVALID_FILE_FORMAT = 'INVALID_FILE_FORMAT',
   
@@ -76,10 +82,14 @@ export class VocaFuseError extends Error {
         return 'Please allow microphone access to record audio.';
       case ErrorCode.RECORDING_NOT_SUPPORTED:
         return 'Audio voicenote is not supported in this browser.';
+      case ErrorCode.DEVICE_NOT_FOUND:
+        return 'The selected microphone is not available. Please choose another one.';
       case ErrorCode.NETWORK_ERROR:
         return 'Network connection failed. Please check your internet connection.';
       case ErrorCode.TOKEN_EXPIRED:
         return 'Your session has expired. Please refresh and try again.';
+      case ErrorCode.UPLOAD_CANCELLED:
+        return 'The upload was cancelled.';
       case ErrorCode.FILE_TOO_LARGE:
         return 'The audio file is too large to upload.';
       case ErrorCode.RECORDING_TOO_LONG:
@@ -177,6 +187,21 @@ export class UploadError extends VocaFuseError {
   }
 }
 
+/**
+ * Upload stopped through an AbortSignal or cancelUpload()
+ */
+export class UploadCancelledError extends VocaFuseError {
+  constructor(context?: Record<string, unknown>) {
+    super({
+      code: ErrorCode.UPLOAD_CANCELLED,
+      message: 'Upload was cancelled',
+      context,
+      retryable: false
+    });
+    this.name = 'UploadCancelledError';
+  }
+}
+
 /**
  * Configuration error
  */
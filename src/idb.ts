@@ -0,0 +1,50 @@
+/**
+ * Small IndexedDB helpers shared by the recording journal, the upload queue
+ * and the multipart upload state
+ */
+
+// One connection per database for the page; dropped when opening fails so the next call retries
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Open (and on first use create) a database. `upgrade` creates the object
+ * stores that are missing.
+ */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  let connection = connections.get(name);
+  if (!connection) {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    connection = requestToPromise(request).catch((error) => {
+      connections.delete(name);
+      throw error;
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Random key for stored records, also used for transcription session ids
+ */
+export function createRecordId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -2,16 +2,57 @@ import { HttpClient } from './client.js';
 import { TokenManager } from './token.js';
 import { VoiceRecorder, type RecorderOptions } from './recorder-controller.js';
 import { ConfigurationError } from './errors.js';
+import { listAudioInputDevices, watchAudioInputDevices, type AudioInputDevice } from './devices.js';
+import { getCapabilities, type Capabilities } from './capabilities.js';
+import { RecordingStore, type RecoveredRecording } from './persistence.js';
+import {
+  VocaFuseUploader,
+  validateUploadFields,
+  type MultipartOptions,
+  type UploadFields,
+  type UploadOptions,
+  type UploadResult
+} from './upload.js';
+import { trimRecording, type TrimOptions } from './trim.js';
+import { UploadQueue, type UploadQueueOptions } from './upload-queue.js';
+import type { VoicenoteResult } from './recorder.js';
 
 export { VoiceRecorder } from './recorder-controller.js';
-export type { RecorderOptions, RecorderState } from './recorder-controller.js';
-export type { UploadResult } from './upload.js';
-export type { VoicenoteResult } from './recorder.js';
-export { ErrorCode, VocaFuseError, AuthenticationError, NetworkError, VoicenoteError, UploadError } from './errors.js';
+export type {
+  RecorderOptions,
+  RecorderState,
+  RecordingReview,
+  TransitionReason,
+  RecorderEvents,
+  RecorderSnapshot
+} from './recorder-controller.js';
+export type { UploadMetadata, MetadataValue } from './upload-metadata.js';
+export type { ProcessingOptions, RedactionProfile } from './processing-options.js';
+export type { UploadResult, UploadOptions, UploadFields, UploadPhase, UploadProgressDetail, MultipartOptions } from './upload.js';
+export type { VoicenoteResult, AudioCaptureConstraints, RecordingEngine, RecordingSource } from './recorder.js';
+export type { VADOptions } from './vad.js';
+export type { AudioInputDevice } from './devices.js';
+export type { Capabilities } from './capabilities.js';
+export type { RecoveredRecording } from './persistence.js';
+export type { TrimOptions } from './trim.js';
+export type { TranscriptEvent, TranscriptionOptions } from './transcription.js';
+export { UploadQueue } from './upload-queue.js';
+export type { QueuedUpload, QueuedUploadStatus, UploadQueueEvents, UploadQueueOptions } from './upload-queue.js';
+export { defineRecorderElement } from './recorder-element.js';
+export type {
+  VocaFuseRecorderElement,
+  RecorderStateChangeDetail,
+  RecorderCompleteDetail,
+  RecorderErrorDetail
+} from './recorder-element.js';
+export { ErrorCode, VocaFuseError, AuthenticationError, NetworkError, VoicenoteError, UploadError, UploadCancelledError, ConfigurationError } from './errors.js';
 
 export interface SDKConfig {
   tokenEndpoint: string;
   apiBaseUrl?: string;
+  transcriptionUrl?: string; // WebSocket endpoint for live transcription (default: derived from apiBaseUrl)
+  uploadQueue?: boolean | UploadQueueOptions; // keep failed uploads in IndexedDB and retry them (default: false)
+  multipart?: MultipartOptions; // part concurrency and per-part retries for large uploads
   timeout?: number;
   retries?: number;
   debug?: boolean;
@@ -28,6 +69,9 @@ export interface SDKInfo {
 interface InternalSDKConfig {
   tokenEndpoint: string;
   apiBaseUrl: string;
+  transcriptionUrl: string;
+  uploadQueue?: boolean | UploadQueueOptions;
+  multipart?: MultipartOptions;
   timeout: number;
   retries: number;
   debug: boolean;
@@ -45,12 +89,14 @@ class VocaFuseSDKBase {
       throw new ConfigurationError('tokenEndpoint is required in SDK configuration');
     }
 
+    const apiBaseUrl = config.apiBaseUrl || 'https://api.vocafuse.com';
     this.config = {
-      apiBaseUrl: 'https://api.vocafuse.com',
       timeout: 30000,
       retries: 3,
       debug: false,
-      ...config
+      ...config,
+      apiBaseUrl,
+      transcriptionUrl: config.transcriptionUrl || `${apiBaseUrl.replace(/^http/, 'ws').replace(/\/$/, '')}/transcribe/stream`
     };
 
     this.tokenManager = new TokenManager({
@@ -84,8 +130,44 @@ class VocaFuseSDKBase {
 }
 
 export class VocaFuseSDK extends VocaFuseSDKBase {
-  createRecorder(options?: RecorderOptions): VoiceRecorder {
-    return new VoiceRecorder(this.httpClient, this.tokenManager, options);
+  private uploadQueue: UploadQueue | null = null;
+
+  /**
+   * Resumes queued uploads left over from earlier sessions before fetching a token,
+   * so they are retried even if this init() fails offline
+   */
+  async init(): Promise<void> {
+    if (this.queueEnabled()) this.uploads.start();
+    await super.init();
+  }
+
+  /**
+   * Persistent queue of failed uploads. Created (and started) on first access.
+   */
+  get uploads(): UploadQueue {
+    if (!this.uploadQueue) {
+      if (!UploadQueue.isSupported()) {
+        throw new ConfigurationError('The upload queue requires IndexedDB, which is not available');
+      }
+      const options = typeof this.config.uploadQueue === 'object' ? this.config.uploadQueue : {};
+      this.uploadQueue = new UploadQueue(this.httpClient, this.tokenManager, { multipart: this.config.multipart, ...options });
+      this.uploadQueue.start();
+    }
+    return this.uploadQueue;
+  }
+
+  createRecorder(options: RecorderOptions = {}): VoiceRecorder {
+    const transcription = options.transcription && {
+      ...options.transcription,
+      endpoint: options.transcription.endpoint || this.config.transcriptionUrl
+    };
+    const uploadQueue = this.queueEnabled() ? this.uploads : undefined;
+    return new VoiceRecorder(this.httpClient, this.tokenManager, {
+      multipart: this.config.multipart,
+      ...options,
+      transcription,
+      uploadQueue
+    });
   }
 
   isVoicenoteSupported(): boolean {
@@ -98,6 +180,110 @@ export class VocaFuseSDK extends VocaFuseSDKBase {
     return this.isVoicenoteSupported();
   }
 
+  /**
+   * Structured report of supported formats and browser features, e.g. for support tickets
+   */
+  getCapabilities(): Capabilities {
+    return getCapabilities();
+  }
+
+  /**
+   * Upload a recording obtained outside a recorder's own flow (trimmed, recovered, ...)
+   */
+  async uploadRecording(voicenote: VoicenoteResult, options: UploadOptions = {}): Promise<UploadResult> {
+    // Checked up front: a recording with invalid options must not end up in the queue
+    const fields = validateUploadFields(options);
+    const uploader = new VocaFuseUploader(this.httpClient, this.tokenManager, { multipart: this.config.multipart });
+    try {
+      return await uploader.upload(voicenote, options);
+    } catch (error) {
+      await this.queueFailedUpload(voicenote, error, fields);
+      throw error;
+    }
+  }
+
+  /**
+   * Cut a recording to a time range. Re-encodes to the original format when
+   * the browser can (in real time), otherwise produces WAV.
+   */
+  async trimRecording(voicenote: VoicenoteResult, options: TrimOptions): Promise<VoicenoteResult> {
+    return trimRecording(voicenote, options);
+  }
+
+  /**
+   * List recordings interrupted by a crash or reload (requires `persist: true` on the recorder).
+   * Each one can be uploaded or discarded.
+   */
+  async recoverRecordings(): Promise<RecoveredRecording[]> {
+    if (!RecordingStore.isSupported()) return [];
+
+    const store = new RecordingStore();
+    const sessions = await store.list();
+    const recovered: RecoveredRecording[] = [];
+
+    for (const session of sessions) {
+      const voicenote = await store.load(session.id);
+      if (!voicenote || voicenote.size === 0) {
+        await store.delete(session.id);
+        continue;
+      }
+
+      recovered.push({
+        id: session.id,
+        startedAt: new Date(session.startedAt),
+        voicenote,
+        upload: async (options: UploadFields = {}) => {
+          const fields = validateUploadFields(options);
+          const uploader = new VocaFuseUploader(this.httpClient, this.tokenManager, { multipart: this.config.multipart });
+          try {
+            const result = await uploader.upload(voicenote, fields);
+            await store.delete(session.id);
+            return result;
+          } catch (error) {
+            // Once queued, the journal copy would only be a duplicate
+            if (await this.queueFailedUpload(voicenote, error, fields)) await store.delete(session.id);
+            throw error;
+          }
+        },
+        discard: () => store.delete(session.id)
+      });
+    }
+
+    return recovered;
+  }
+
+  /**
+   * List available microphones. Labels are empty until permission is granted.
+   */
+  async getAudioInputDevices(): Promise<AudioInputDevice[]> {
+    return listAudioInputDevices();
+  }
+
+  /**
+   * Subscribe to microphone plug/unplug events. Returns an unsubscribe function.
+   */
+  onDeviceChange(listener: (devices: AudioInputDevice[]) => void): () => void {
+    return watchAudioInputDevices(listener);
+  }
+
+  private queueEnabled(): boolean {
+    return !!this.config.uploadQueue && UploadQueue.isSupported();
+  }
+
+  /**
+   * With the upload queue enabled, keep a failed upload for a later retry if
+   * retrying can help. Returns whether it was queued.
+   */
+  private async queueFailedUpload(voicenote: VoicenoteResult, error: unknown, fields: UploadFields): Promise<boolean> {
+    if (!this.queueEnabled() || !UploadQueue.isQueueable(error)) return false;
+    try {
+      await this.uploads.enqueue(voicenote, error, fields);
+      return true;
+    } catch (_storageError) {
+      return false;
+    }
+  }
+
   getInfo(): SDKInfo {
     return {
       version: VERSION,
@@ -0,0 +1,148 @@
+/**
+ * VocaFuse Level Meter
+ *
+ * AnalyserNode-based input metering for a captured MediaStream. Reports
+ * RMS and peak levels and keeps a rolling buffer of waveform peaks.
+ */
+
+import { getAudioContextClass } from './audio-context.js';
+
+export interface LevelMeterConfig {
+  interval?: number; // Sampling interval in ms (default: 50)
+  waveformLength?: number; // Number of peaks kept in the rolling buffer (default: 100)
+  fftSize?: number; // Analyser window size (default: 2048)
+  onLevel?: (rms: number, peak: number) => void; // Level callback, values in 0..1
+}
+
+export class LevelMeter {
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private timer: number | null = null;
+  private peaks: number[] = [];
+  private readonly config: Required<LevelMeterConfig>;
+
+  constructor(config: LevelMeterConfig = {}) {
+    this.config = {
+      interval: 50,
+      waveformLength: 100,
+      fftSize: 2048,
+      onLevel: () => {},
+      ...config
+    };
+  }
+
+  /**
+   * Check if level metering is supported in this browser
+   */
+  static isSupported(): boolean {
+    return getAudioContextClass() !== null;
+  }
+
+  /**
+   * Rolling buffer of the most recent peak values, oldest first
+   */
+  get waveform(): number[] {
+    return [...this.peaks];
+  }
+
+  /**
+   * Whether the meter is currently sampling
+   */
+  get isActive(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Connect the meter to a stream and start sampling
+   */
+  attach(stream: MediaStream): void {
+    this.detach();
+
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) return;
+
+    this.audioContext = new AudioContextClass();
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = this.config.fftSize;
+    this.source.connect(this.analyser);
+    this.peaks = [];
+
+    this.startSampling();
+  }
+
+  /**
+   * Stop sampling without releasing the audio graph
+   */
+  pause(): void {
+    this.stopSampling();
+    this.audioContext?.suspend().catch(() => {});
+  }
+
+  /**
+   * Resume sampling after a pause
+   */
+  resume(): void {
+    if (!this.analyser) return;
+    this.audioContext?.resume().catch(() => {});
+    this.startSampling();
+  }
+
+  /**
+   * Stop sampling and release the audio graph
+   */
+  detach(): void {
+    this.stopSampling();
+
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => {});
+      this.audioContext = null;
+    }
+
+    this.analyser = null;
+  }
+
+  private startSampling(): void {
+    this.stopSampling();
+    this.timer = window.setInterval(() => this.sample(), this.config.interval);
+  }
+
+  private stopSampling(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private sample(): void {
+    if (!this.analyser) return;
+
+    const samples = new Float32Array(this.analyser.fftSize);
+    this.analyser.getFloatTimeDomainData(samples);
+
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i];
+      const magnitude = Math.abs(value);
+      sumSquares += value * value;
+      if (magnitude > peak) peak = magnitude;
+    }
+
+    const rms = Math.sqrt(sumSquares / samples.length);
+    peak = Math.min(peak, 1);
+
+    this.peaks.push(peak);
+    if (this.peaks.length > this.config.waveformLength) {
+      this.peaks.splice(0, this.peaks.length - this.config.waveformLength);
+    }
+
+    this.config.onLevel(rms, peak);
+  }
+}
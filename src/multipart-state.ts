@@ -0,0 +1,165 @@
+/**
+ * VocaFuse Multipart Upload State
+ *
+ * Remembers which parts of a multipart upload already reached storage (with
+ * their ETags), keyed by upload_id and findable by a fingerprint of the
+ * recording, so an interrupted upload continues where it stopped - also
+ * after a page reload.
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from './idb.js';
+
+export interface MultipartPartRange {
+  part_number: number;
+  start_byte: number;
+  end_byte: number; // inclusive
+}
+
+export interface MultipartUploadState {
+  upload_id: string;
+  fingerprint: string; // see fingerprintBlob()
+  voicenote_id: string;
+  s3_key: string;
+  processing_strategy: string;
+  client_processed: boolean;
+  parts: MultipartPartRange[];
+  etags: Record<number, string>; // part_number -> ETag of parts already uploaded
+  createdAt: number;
+}
+
+const DB_NAME = 'vocafuse-multipart';
+const DB_VERSION = 1;
+const UPLOADS = 'uploads';
+const BY_FINGERPRINT = 'fingerprint';
+
+// Older uploads are started over; the API expires incomplete uploads anyway
+const RESUME_WINDOW = 24 * 60 * 60 * 1000;
+
+// Bytes hashed from each end of the recording
+const FINGERPRINT_SAMPLE = 256 * 1024;
+
+/**
+ * Identify a recording by size, type and a hash of its first and last bytes
+ */
+export async function fingerprintBlob(blob: Blob): Promise<string> {
+  const base = `${blob.size}:${blob.type}`;
+  if (typeof crypto === 'undefined' || !crypto.subtle) return base;
+
+  try {
+    const sample = blob.size <= FINGERPRINT_SAMPLE * 2
+      ? blob
+      : new Blob([blob.slice(0, FINGERPRINT_SAMPLE), blob.slice(blob.size - FINGERPRINT_SAMPLE)]);
+    const digest = await crypto.subtle.digest('SHA-256', await sample.arrayBuffer());
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${base}:${hex}`;
+  } catch (_error) {
+    return base;
+  }
+}
+
+/**
+ * IndexedDB-backed store, falling back to memory (no reload survival) without IndexedDB.
+ * Failures are swallowed: losing resume state only costs a fresh upload.
+ */
+export class MultipartStateStore {
+  private readonly memory = new Map<string, MultipartUploadState>();
+
+  /**
+   * Most recent resumable upload of this recording, if any
+   */
+  async find(fingerprint: string): Promise<MultipartUploadState | null> {
+    const now = Date.now();
+    let states: MultipartUploadState[];
+    try {
+      states = await this.findAll(fingerprint);
+    } catch (_error) {
+      return null;
+    }
+
+    const fresh = states.filter(state => now - state.createdAt < RESUME_WINDOW);
+    return fresh.sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
+  }
+
+  /**
+   * Remove and return uploads too old to resume, so the caller can abort them on the API
+   */
+  async takeExpired(): Promise<MultipartUploadState[]> {
+    const cutoff = Date.now() - RESUME_WINDOW;
+    let states: MultipartUploadState[];
+    try {
+      states = await this.all();
+    } catch (_error) {
+      return [];
+    }
+
+    const expired = states.filter(state => state.createdAt <= cutoff);
+    await Promise.all(expired.map(state => this.delete(state.upload_id)));
+    return expired;
+  }
+
+  async save(state: MultipartUploadState): Promise<void> {
+    if (!this.persistent()) {
+      this.memory.set(state.upload_id, state);
+      return;
+    }
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(UPLOADS, 'readwrite');
+      transaction.objectStore(UPLOADS).put(state);
+      await transactionDone(transaction);
+    } catch (_error) {
+      this.memory.set(state.upload_id, state);
+    }
+  }
+
+  async delete(uploadId: string): Promise<void> {
+    this.memory.delete(uploadId);
+    if (!this.persistent()) return;
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(UPLOADS, 'readwrite');
+      transaction.objectStore(UPLOADS).delete(uploadId);
+      await transactionDone(transaction);
+    } catch (_error) {
+      // Left to expire through RESUME_WINDOW
+    }
+  }
+
+  private async findAll(fingerprint: string): Promise<MultipartUploadState[]> {
+    const remembered = [...this.memory.values()].filter(state => state.fingerprint === fingerprint);
+    if (!this.persistent()) return remembered;
+
+    const db = await this.open();
+    const stored = await requestToPromise(
+      db.transaction(UPLOADS, 'readonly')
+        .objectStore(UPLOADS)
+        .index(BY_FINGERPRINT)
+        .getAll(fingerprint) as IDBRequest<MultipartUploadState[]>
+    );
+    return [...stored, ...remembered.filter(state => !stored.some(entry => entry.upload_id === state.upload_id))];
+  }
+
+  private async all(): Promise<MultipartUploadState[]> {
+    const remembered = [...this.memory.values()];
+    if (!this.persistent()) return remembered;
+
+    const db = await this.open();
+    const stored = await requestToPromise(
+      db.transaction(UPLOADS, 'readonly').objectStore(UPLOADS).getAll() as IDBRequest<MultipartUploadState[]>
+    );
+    return [...stored, ...remembered.filter(state => !stored.some(entry => entry.upload_id === state.upload_id))];
+  }
+
+  private persistent(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(UPLOADS)) {
+        const store = db.createObjectStore(UPLOADS, { keyPath: 'upload_id' });
+        store.createIndex(BY_FINGERPRINT, 'fingerprint');
+      }
+    });
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * VocaFuse PCM Recorder
+ *
+ * AudioWorklet-based capture engine producing uncompressed 16-bit WAV.
+ * Mirrors the small part of the MediaRecorder surface AudioRecorder relies
+ * on (state, start/pause/resume/stop, dataavailable/stop events), so it can
+ * be used as a drop-in engine.
+ */
+
+import { getAudioContextClass } from './audio-context.js';
+import { createWavHeader, floatTo16BitPcm, WAV_BITS_PER_SAMPLE } from './wav.js';
+
+export interface PcmRecorderOptions {
+  sampleRate?: number; // Output sample rate in Hz (default: capture rate)
+}
+
+type PcmRecorderState = 'inactive' | 'recording' | 'paused';
+
+interface PcmRecorderEventMap {
+  dataavailable: BlobEvent;
+  stop: Event;
+  error: ErrorEvent;
+}
+
+const PROCESSOR_NAME = 'vocafuse-pcm-capture';
+const CHANNELS = 1; // Inputs are downmixed to mono
+
+// Runs on the audio rendering thread: downmix each render quantum and post it
+const WORKLET_SOURCE = `
+class VocaFusePcmCapture extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.capturing = false;
+    this.port.onmessage = (event) => { this.capturing = event.data === 'start'; };
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (this.capturing && input && input.length > 0) {
+      const frame = new Float32Array(input[0].length);
+      for (let c = 0; c < input.length; c++) {
+        const channel = input[c];
+        for (let i = 0; i < channel.length; i++) frame[i] += channel[i] / input.length;
+      }
+      this.port.postMessage(frame, [frame.buffer]);
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', VocaFusePcmCapture);
+`;
+
+/**
+ * Streaming resampler: box-filter decimation when downsampling,
+ * linear interpolation when upsampling
+ */
+class StreamResampler {
+  private readonly ratio: number;
+  private remainder: Float32Array = new Float32Array(0);
+  private offset = 0;
+
+  constructor(inputRate: number, outputRate: number) {
+    this.ratio = inputRate / outputRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input;
+
+    const data = new Float32Array(this.remainder.length + input.length);
+    data.set(this.remainder);
+    data.set(input, this.remainder.length);
+
+    const output: number[] = [];
+    let position = this.offset;
+
+    while (position + this.ratio <= data.length) {
+      if (this.ratio > 1) {
+        const start = Math.floor(position);
+        const end = Math.floor(position + this.ratio);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += data[i];
+        output.push(sum / Math.max(end - start, 1));
+      } else {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const next = index + 1 < data.length ? data[index + 1] : data[index];
+        output.push(data[index] + (next - data[index]) * fraction);
+      }
+      position += this.ratio;
+    }
+
+    const consumed = Math.floor(position);
+    this.remainder = data.slice(consumed);
+    this.offset = position - consumed;
+    return Float32Array.from(output);
+  }
+}
+
+export class PcmRecorder extends EventTarget {
+  readonly mimeType = 'audio/wav';
+  private _state: PcmRecorderState = 'inactive';
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private resampler: StreamResampler | null = null;
+  private pending: number[] = [];
+  private chunkSamples = 0;
+  private outputRate = 0;
+  private readonly stream: MediaStream;
+  private readonly options: PcmRecorderOptions;
+
+  constructor(stream: MediaStream, options: PcmRecorderOptions = {}) {
+    super();
+    this.stream = stream;
+    this.options = options;
+  }
+
+  /**
+   * Check if AudioWorklet capture is supported in this browser
+   */
+  static isSupported(): boolean {
+    return getAudioContextClass() !== null && typeof AudioWorkletNode !== 'undefined';
+  }
+
+  get state(): PcmRecorderState {
+    return this._state;
+  }
+
+  /**
+   * Output sample rate in Hz (available after prepare())
+   */
+  get sampleRate(): number {
+    return this.outputRate;
+  }
+
+  get channels(): number {
+    return CHANNELS;
+  }
+
+  get audioBitsPerSecond(): number {
+    return this.outputRate * WAV_BITS_PER_SAMPLE * CHANNELS;
+  }
+
+  addEventListener<K extends keyof PcmRecorderEventMap>(
+    type: K,
+    listener: (event: PcmRecorderEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    super.addEventListener(type, listener as EventListener, options);
+  }
+
+  /**
+   * Build the audio graph and load the capture worklet
+   */
+  async prepare(): Promise<void> {
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) {
+      throw new Error('Web Audio API is not available');
+    }
+
+    this.audioContext = new AudioContextClass();
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await this.audioContext.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    this.outputRate = this.options.sampleRate || this.audioContext.sampleRate;
+    this.resampler = new StreamResampler(this.audioContext.sampleRate, this.outputRate);
+
+    this.source = this.audioContext.createMediaStreamSource(this.stream);
+    this.workletNode = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME);
+    this.workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => this.handleFrame(event.data);
+    this.source.connect(this.workletNode);
+  }
+
+  /**
+   * Start capturing; a dataavailable event fires every `timeslice` ms
+   */
+  start(timeslice: number = 1000): void {
+    if (!this.workletNode) throw new Error('PcmRecorder.prepare() must be called before start()');
+    this.chunkSamples = Math.max(1, Math.round(this.outputRate * timeslice / 1000));
+    this.pending = [];
+    this._state = 'recording';
+    this.workletNode.port.postMessage('start');
+  }
+
+  pause(): void {
+    this._state = 'paused';
+    this.workletNode?.port.postMessage('pause');
+  }
+
+  resume(): void {
+    this._state = 'recording';
+    this.workletNode?.port.postMessage('start');
+  }
+
+  stop(): void {
+    if (this._state === 'inactive') {
+      this.release();
+      return;
+    }
+
+    this.workletNode?.port.postMessage('stop');
+    this._state = 'inactive';
+    this.flush();
+    this.release();
+
+    setTimeout(() => this.dispatchEvent(new Event('stop')), 0);
+  }
+
+  /**
+   * Wrap the raw PCM chunks emitted by this recorder into a WAV file
+   */
+  encode(chunks: Blob[]): Blob {
+    const dataLength = chunks.reduce((total, chunk) => total + chunk.size, 0);
+    return new Blob([createWavHeader(dataLength, this.outputRate), ...chunks], { type: this.mimeType });
+  }
+
+  private handleFrame(frame: Float32Array): void {
+    if (this._state !== 'recording' || !this.resampler) return;
+
+    const samples = this.resampler.process(frame);
+    for (let i = 0; i < samples.length; i++) this.pending.push(samples[i]);
+
+    if (this.pending.length >= this.chunkSamples) {
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    if (this.pending.length === 0) return;
+
+    const pcm = floatTo16BitPcm(this.pending);
+    this.pending = [];
+
+    const data = new Blob([pcm], { type: 'audio/pcm' });
+    this.dispatchEvent(new BlobEvent('dataavailable', { data }));
+  }
+
+  private release(): void {
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => {});
+      this.audioContext = null;
+    }
+    this.resampler = null;
+  }
+}
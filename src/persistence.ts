@@ -0,0 +1,279 @@
+/**
+ * VocaFuse Recording Persistence
+ *
+ * Opt-in IndexedDB journal of recording chunks, written as they arrive so
+ * an interrupted recording (tab crash, reload) can be recovered later.
+ */
+
+import { ErrorCode, VoicenoteError } from './errors.js';
+import { createWavHeader } from './wav.js';
+import { createRecordId, openDatabase, requestToPromise, transactionDone } from './idb.js';
+import type { VoicenoteResult } from './recorder.js';
+import type { UploadFields, UploadResult } from './upload.js';
+
+export interface PersistedRecording {
+  id: string;
+  mimeType: string;
+  format: string;
+  startedAt: number;
+  updatedAt: number;
+  duration: number;
+  size: number;
+  chunkCount: number;
+  sampleRate?: number;
+  channels?: number;
+  bitRate?: number;
+  owner?: string; // page holding the recording (recording, reviewing, awaiting a retry)
+  heartbeatAt?: number; // last sign of life from the owner
+}
+
+type SessionMeta = Omit<PersistedRecording, 'id' | 'startedAt' | 'updatedAt' | 'duration' | 'size' | 'chunkCount' | 'owner' | 'heartbeatAt'>;
+
+export interface RecoveredRecording {
+  id: string;
+  startedAt: Date;
+  voicenote: VoicenoteResult;
+  upload(options?: UploadFields): Promise<UploadResult>; // Uploads and removes the stored copy on success
+  discard(): Promise<void>;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  blob: Blob;
+}
+
+const DB_NAME = 'vocafuse-recordings';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const CHUNKS = 'chunks';
+
+// Identifies this page as the owner of the sessions it holds
+const PAGE_ID = createRecordId();
+
+// Owners refresh heartbeatAt this often; a session whose owner has been silent
+// for OWNER_TIMEOUT (closed or crashed tab) counts as interrupted
+const HEARTBEAT_INTERVAL = 10000;
+const OWNER_TIMEOUT = 30000;
+
+// Sessions held by this page, from the first chunk until delete() or release()
+const ownedSessions = new Map<string, RecordingStore>();
+let heartbeatTimer: number | null = null;
+
+function own(id: string, store: RecordingStore): void {
+  ownedSessions.set(id, store);
+  if (heartbeatTimer === null) {
+    heartbeatTimer = window.setInterval(() => {
+      ownedSessions.forEach((owner, sessionId) => owner.heartbeat(sessionId).catch(() => {}));
+    }, HEARTBEAT_INTERVAL);
+  }
+}
+
+function disown(id: string): void {
+  ownedSessions.delete(id);
+  if (ownedSessions.size === 0 && heartbeatTimer !== null) {
+    window.clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
+
+function chunkRange(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
+}
+
+export class RecordingStore {
+  /**
+   * Check if IndexedDB persistence is available in this browser
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * List recordings that were interrupted: not held by this page, nor by
+   * another tab that is still alive
+   */
+  async list(): Promise<PersistedRecording[]> {
+    const db = await this.open();
+    const sessions = await requestToPromise(
+      db.transaction(SESSIONS, 'readonly').objectStore(SESSIONS).getAll() as IDBRequest<PersistedRecording[]>
+    );
+    const now = Date.now();
+    return sessions
+      .filter(session => !ownedSessions.has(session.id))
+      .filter(session => !session.owner || session.owner === PAGE_ID || now - (session.heartbeatAt ?? 0) >= OWNER_TIMEOUT)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  /**
+   * Rebuild a stored recording into a VoicenoteResult
+   */
+  async load(id: string): Promise<VoicenoteResult | null> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS, CHUNKS], 'readonly');
+    const session = await requestToPromise(
+      transaction.objectStore(SESSIONS).get(id) as IDBRequest<PersistedRecording | undefined>
+    );
+    if (!session) return null;
+
+    const chunks = await requestToPromise(
+      transaction.objectStore(CHUNKS).getAll(chunkRange(id)) as IDBRequest<StoredChunk[]>
+    );
+    const parts: BlobPart[] = chunks.map(chunk => chunk.blob);
+    const dataLength = chunks.reduce((total, chunk) => total + chunk.blob.size, 0);
+
+    // WAV sessions journal raw PCM: restore the header
+    if (session.format === 'wav') {
+      parts.unshift(createWavHeader(dataLength, session.sampleRate || 48000, session.channels || 1));
+    }
+
+    const blob = new Blob(parts, { type: session.mimeType });
+    return {
+      blob,
+      mimeType: session.mimeType,
+      duration: session.duration,
+      size: blob.size,
+      format: session.format,
+      sampleRate: session.sampleRate,
+      channels: session.channels,
+      bitRate: session.bitRate,
+      persistenceId: session.id
+    };
+  }
+
+  /**
+   * Remove a stored recording and all its chunks
+   */
+  async delete(id: string): Promise<void> {
+    disown(id);
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+    transaction.objectStore(SESSIONS).delete(id);
+    transaction.objectStore(CHUNKS).delete(chunkRange(id));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Stop holding a recording without deleting it, so recoverRecordings() lists it
+   */
+  release(id: string): void {
+    disown(id);
+  }
+
+  /**
+   * Start journaling a new recording
+   */
+  createWriter(meta: SessionMeta, onError: (error: VoicenoteError) => void = () => {}): RecordingWriter {
+    return new RecordingWriter(this, meta, onError);
+  }
+
+  /** @internal */
+  async heartbeat(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SESSIONS, 'readwrite');
+    const sessions = transaction.objectStore(SESSIONS);
+    const session = await requestToPromise(sessions.get(id) as IDBRequest<PersistedRecording | undefined>);
+    if (session) sessions.put({ ...session, heartbeatAt: Date.now() });
+    await transactionDone(transaction);
+  }
+
+  /** @internal */
+  open(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS)) {
+        db.createObjectStore(CHUNKS, { keyPath: ['sessionId', 'index'] });
+      }
+    });
+  }
+}
+
+/**
+ * Appends chunks of one recording, serializing writes so they land in order
+ */
+export class RecordingWriter {
+  readonly id: string;
+  private session: PersistedRecording;
+  private queue: Promise<void> = Promise.resolve();
+  private failed = false;
+
+  constructor(
+    private readonly store: RecordingStore,
+    meta: SessionMeta,
+    private readonly onError: (error: VoicenoteError) => void
+  ) {
+    this.id = createRecordId();
+    const now = Date.now();
+    this.session = {
+      ...meta,
+      id: this.id,
+      startedAt: now,
+      updatedAt: now,
+      duration: 0,
+      size: 0,
+      chunkCount: 0,
+      owner: PAGE_ID,
+      heartbeatAt: now
+    };
+    own(this.id, store);
+  }
+
+  /**
+   * Queue a chunk for storage; duration is the recorded length so far
+   */
+  append(chunk: Blob, duration: number): void {
+    const index = this.session.chunkCount;
+    const now = Date.now();
+    this.session = {
+      ...this.session,
+      updatedAt: now,
+      heartbeatAt: now,
+      duration,
+      size: this.session.size + chunk.size,
+      chunkCount: index + 1
+    };
+    const session = this.session;
+
+    this.enqueue(async () => {
+      const db = await this.store.open();
+      const transaction = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+      transaction.objectStore(CHUNKS).put({ sessionId: this.id, index, blob: chunk } as StoredChunk);
+      transaction.objectStore(SESSIONS).put(session);
+      await transactionDone(transaction);
+    });
+  }
+
+  /**
+   * Wait for pending writes. The page keeps holding the session (e.g. for
+   * review or a retry) until the store deletes or releases it.
+   */
+  async close(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Wait for pending writes, then delete the stored copy
+   */
+  async discard(): Promise<void> {
+    await this.queue;
+    await this.store.delete(this.id).catch(() => {
+      disown(this.id);
+    });
+  }
+
+  private enqueue(operation: () => Promise<void>): void {
+    this.queue = this.queue.then(operation).catch((error) => {
+      // Report the first failure only; recording itself carries on in memory
+      if (this.failed) return;
+      this.failed = true;
+      this.onError(new VoicenoteError(
+        ErrorCode.STORAGE_FAILED,
+        'Failed to persist recording chunk to IndexedDB',
+        error instanceof Error ? error : undefined,
+        { sessionId: this.id }
+      ));
+    });
+  }
+}
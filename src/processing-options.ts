@@ -0,0 +1,102 @@
+/**
+ * VocaFuse Processing Options
+ *
+ * What the API does with a voicenote after upload: transcription language,
+ * speaker diarization, punctuation, custom vocabulary and redaction.
+ * Validated here and sent with the `/upload` request as `processing_options`.
+ */
+
+import { VoicenoteError, ErrorCode } from './errors.js';
+
+export type RedactionProfile = 'none' | 'pii' | 'pci' | 'phi';
+
+export interface ProcessingOptions {
+  language?: string; // BCP-47 hint, e.g. 'en-US'
+  autoDetectLanguage?: boolean; // let the API detect the language; not combined with `language`
+  diarization?: boolean; // label who spoke when
+  punctuation?: boolean; // punctuate and capitalize the transcript (API default: true)
+  vocabulary?: string[]; // names and terms to favour, e.g. product names
+  redaction?: RedactionProfile; // 'pii': names, contacts, IDs; 'pci': card data; 'phi': health data
+}
+
+/**
+ * Wire format of ProcessingOptions in UploadRequest
+ */
+export interface ProcessingRequest {
+  language?: string;
+  auto_detect_language?: boolean;
+  speaker_diarization?: boolean;
+  punctuation?: boolean;
+  custom_vocabulary?: string[];
+  redaction_profile?: RedactionProfile;
+}
+
+const LANGUAGE_TAG = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+const REDACTION_PROFILES: RedactionProfile[] = ['none', 'pii', 'pci', 'phi'];
+const MAX_VOCABULARY = 100;
+const MAX_TERM_LENGTH = 100;
+
+function invalid(message: string, context?: Record<string, unknown>): VoicenoteError {
+  return new VoicenoteError(ErrorCode.VALIDATION_ERROR, message, undefined, context);
+}
+
+function checkBoolean(options: ProcessingOptions, key: 'autoDetectLanguage' | 'diarization' | 'punctuation'): void {
+  if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+    throw invalid(`processing.${key} must be a boolean`);
+  }
+}
+
+/**
+ * Check processing options and return them with vocabulary trimmed and
+ * de-duplicated. Throws a VALIDATION_ERROR VoicenoteError.
+ */
+export function validateProcessingOptions(options: ProcessingOptions): ProcessingOptions {
+  if (options === null || typeof options !== 'object') {
+    throw invalid('processing must be an object');
+  }
+  checkBoolean(options, 'autoDetectLanguage');
+  checkBoolean(options, 'diarization');
+  checkBoolean(options, 'punctuation');
+
+  const result: ProcessingOptions = { ...options };
+
+  if (options.language !== undefined) {
+    if (typeof options.language !== 'string' || !LANGUAGE_TAG.test(options.language)) {
+      throw invalid(`processing.language "${String(options.language)}" is not a BCP-47 language tag like 'en' or 'en-US'`);
+    }
+    if (options.autoDetectLanguage) {
+      throw invalid('processing.language and processing.autoDetectLanguage cannot be combined');
+    }
+  }
+
+  if (options.vocabulary !== undefined) {
+    if (!Array.isArray(options.vocabulary)) throw invalid('processing.vocabulary must be an array of strings');
+    const terms = [...new Set(options.vocabulary.map(term => typeof term === 'string' ? term.trim() : term))];
+    if (terms.length > MAX_VOCABULARY) {
+      throw invalid(`processing.vocabulary has ${terms.length} terms; at most ${MAX_VOCABULARY} are allowed`);
+    }
+    for (const term of terms) {
+      if (typeof term !== 'string' || term === '' || term.length > MAX_TERM_LENGTH) {
+        throw invalid(`Invalid vocabulary term "${String(term)}": use 1-${MAX_TERM_LENGTH} characters`, { term });
+      }
+    }
+    result.vocabulary = terms as string[];
+  }
+
+  if (options.redaction !== undefined && !REDACTION_PROFILES.includes(options.redaction)) {
+    throw invalid(`processing.redaction must be one of ${REDACTION_PROFILES.join(', ')}`, { redaction: options.redaction });
+  }
+
+  return result;
+}
+
+export function toProcessingRequest(options: ProcessingOptions): ProcessingRequest {
+  return {
+    language: options.language,
+    auto_detect_language: options.autoDetectLanguage,
+    speaker_diarization: options.diarization,
+    punctuation: options.punctuation,
+    custom_vocabulary: options.vocabulary,
+    redaction_profile: options.redaction
+  };
+}
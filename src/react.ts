@@ -0,0 +1,185 @@
+/**
+ * React bindings, published as `vocafuse/react`.
+ *
+ *   <VocaFuseProvider config={{ tokenEndpoint: '/api/token' }}>
+ *     <App />
+ *   </VocaFuseProvider>
+ *
+ *   const { state, duration, start, stop } = useVoiceRecorder({ maxDuration: 60 })
+ */
+
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type MutableRefObject,
+  type ReactNode
+} from 'react';
+import { ConfigurationError, ErrorCode, VocaFuseSDK, VoicenoteError, type SDKConfig } from './index.js';
+import type { RecorderOptions, RecorderSnapshot, VoiceRecorder } from './recorder-controller.js';
+import type { RecordingSource, VoicenoteResult } from './recorder.js';
+import type { UploadResult } from './upload.js';
+
+export interface VocaFuseContextValue {
+  sdk: VocaFuseSDK;
+  ready: boolean; // init() finished and a token was fetched
+  error: unknown; // init() failure, if any
+}
+
+export interface VocaFuseProviderProps {
+  config?: SDKConfig; // create an SDK for this tree (read once, on mount)
+  sdk?: VocaFuseSDK; // or share an existing instance
+  children?: ReactNode;
+}
+
+export interface UseVoiceRecorderResult extends RecorderSnapshot {
+  recorder: VoiceRecorder | null; // null until mounted
+  isRecording: boolean;
+  isPaused: boolean;
+  isUploading: boolean;
+  start: (source?: RecordingSource) => Promise<void>;
+  stop: () => Promise<UploadResult | VoicenoteResult>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => Promise<void>;
+  confirmUpload: () => Promise<UploadResult>;
+  retryUpload: () => Promise<UploadResult>;
+  cancelUpload: () => Promise<void>;
+  pauseUpload: () => void;
+  resumeUpload: () => void;
+  reset: () => Promise<void>;
+}
+
+const VocaFuseContext = createContext<VocaFuseContextValue | null>(null);
+
+// Snapshot reported before the recorder exists
+const IDLE_SNAPSHOT: RecorderSnapshot = Object.freeze({
+  state: 'idle',
+  duration: 0,
+  uploadProgress: 0,
+  uploadPaused: false,
+  uploadPhase: null,
+  transcript: '',
+  review: null,
+  error: null,
+  canRetry: false
+});
+
+const noopSubscribe = () => () => {};
+const getIdleSnapshot = () => IDLE_SNAPSHOT;
+
+export function VocaFuseProvider({ config, sdk: sharedSdk, children }: VocaFuseProviderProps) {
+  const [sdk] = useState(() => {
+    if (sharedSdk) return sharedSdk;
+    if (!config) {
+      throw new ConfigurationError('VocaFuseProvider needs either a config or an sdk prop');
+    }
+    return new VocaFuseSDK(config);
+  });
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    let active = true;
+    sdk.init().then(
+      () => active && setReady(true),
+      (initError) => active && setError(initError)
+    );
+    return () => {
+      active = false;
+    };
+  }, [sdk]);
+
+  const value = useMemo(() => ({ sdk, ready, error }), [sdk, ready, error]);
+  return createElement(VocaFuseContext.Provider, { value }, children);
+}
+
+/**
+ * The SDK from the nearest VocaFuseProvider
+ */
+export function useVocaFuse(): VocaFuseContextValue {
+  const context = useContext(VocaFuseContext);
+  if (!context) {
+    throw new ConfigurationError('useVocaFuse must be used inside a VocaFuseProvider');
+  }
+  return context;
+}
+
+/**
+ * A recorder bound to the component's lifetime. Options are read when the
+ * recorder is created; callbacks always call the latest render's version.
+ */
+export function useVoiceRecorder(options: RecorderOptions = {}): UseVoiceRecorderResult {
+  const { sdk } = useVocaFuse();
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [recorder, setRecorder] = useState<VoiceRecorder | null>(null);
+
+  // Created in the effect, not during render: StrictMode's extra mount/unmount
+  // then destroys its own recorder instead of leaking a microphone
+  useEffect(() => {
+    const instance = sdk.createRecorder(withLatestCallbacks(optionsRef));
+    setRecorder(instance);
+    return () => {
+      instance.destroy();
+      setRecorder(null);
+    };
+  }, [sdk]);
+
+  const snapshot = useSyncExternalStore(
+    recorder ? recorder.subscribe : noopSubscribe,
+    recorder ? recorder.getSnapshot : getIdleSnapshot
+  );
+
+  const controls = useMemo(() => {
+    const mounted = (): VoiceRecorder => {
+      if (!recorder) {
+        throw new VoicenoteError(ErrorCode.RECORDING_FAILED, 'Recorder is not mounted yet');
+      }
+      return recorder;
+    };
+    return {
+      start: async (source?: RecordingSource) => mounted().start(source),
+      stop: async () => mounted().stop(),
+      pause: () => mounted().pause(),
+      resume: () => mounted().resume(),
+      cancel: async () => mounted().cancel(),
+      confirmUpload: async () => mounted().confirmUpload(),
+      retryUpload: async () => mounted().retryUpload(),
+      cancelUpload: async () => mounted().cancelUpload(),
+      pauseUpload: () => mounted().pauseUpload(),
+      resumeUpload: () => mounted().resumeUpload(),
+      reset: async () => mounted().reset()
+    };
+  }, [recorder]);
+
+  return {
+    ...snapshot,
+    ...controls,
+    recorder,
+    isRecording: snapshot.state === 'recording',
+    isPaused: snapshot.state === 'paused',
+    isUploading: snapshot.state === 'uploading'
+  };
+}
+
+/**
+ * Copy of the options whose callbacks forward to whatever the ref holds at call time
+ */
+function withLatestCallbacks(ref: MutableRefObject<RecorderOptions>): RecorderOptions {
+  const options: Record<string, unknown> = { ...ref.current };
+  for (const key of Object.keys(options)) {
+    if (typeof options[key] !== 'function') continue;
+    options[key] = (...args: unknown[]) => {
+      const callback = ref.current[key as keyof RecorderOptions];
+      return typeof callback === 'function' ? (callback as (...params: unknown[]) => unknown)(...args) : undefined;
+    };
+  }
+  return options as RecorderOptions;
+}
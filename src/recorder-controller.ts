@@ -1,21 +1,160 @@
-import { AudioRecorder, type VoicenoteResult } from './recorder.js';
-import { VocaFuseUploader, type UploadResult } from './upload.js';
+import {
+  AudioRecorder,
+  type AudioCaptureConstraints,
+  type AutoStopReason,
+  type RecordingEngine,
+  type RecordingSource,
+  type VoicenoteResult
+} from './recorder.js';
+import type { VADOptions } from './vad.js';
+import type { AudioInputDevice } from './devices.js';
+import { RecordingStore } from './persistence.js';
+import { computeBlobPeaks } from './waveform.js';
+import { trimRecording, type TrimOptions } from './trim.js';
+import {
+  VocaFuseUploader,
+  validateUploadFields,
+  type MultipartOptions,
+  type UploadFields,
+  type UploadPhase,
+  type UploadProgressDetail,
+  type UploadResult
+} from './upload.js';
+import { StreamingUploader } from './streaming-upload.js';
+import type { UploadMetadata } from './upload-metadata.js';
+import type { ProcessingOptions } from './processing-options.js';
+import { TranscriptionStream, type TranscriptEvent, type TranscriptionOptions } from './transcription.js';
 import { HttpClient } from './client.js';
 import { TokenManager } from './token.js';
-import { ErrorCode, VoicenoteError } from './errors.js';
+import { ErrorCode, UploadCancelledError, UploadError, VoicenoteError, wrapUnknownError, type VocaFuseError } from './errors.js';
+import { UploadQueue, type QueuedUpload } from './upload-queue.js';
+import { TypedEmitter, type Listener } from './emitter.js';
 
-export interface RecorderOptions {
+/**
+ * `metadata`, `tags`, `external_id` and `processing` are sent with every upload of this recorder
+ */
+export interface RecorderOptions extends UploadMetadata {
+  processing?: ProcessingOptions; // language, diarization, vocabulary, redaction, ...
   maxDuration?: number;
+  maxDurationWarning?: number; // seconds before maxDuration to fire onMaxDurationWarning (default: off)
+  onMaxDurationWarning?: (secondsLeft: number) => void;
+  onMaxDurationReached?: (voicenote: VoicenoteResult) => void; // recording was stopped at maxDuration
+  deviceId?: string; // audio input device, see sdk.getAudioInputDevices()
+  audioConstraints?: AudioCaptureConstraints; // echoCancellation, noiseSuppression, etc.
+  audioBitsPerSecond?: number; // encoder bitrate (default: 128000)
+  engine?: RecordingEngine; // 'mediarecorder' (default) or 'wav' for uncompressed PCM
+  mimeType?: string; // force an exact MediaRecorder MIME type, e.g. 'audio/ogg;codecs=opus'
+  preferredFormats?: string[]; // MIME types to try first, falls back to the defaults
+  outputSampleRate?: number; // wav engine: resample to this rate, e.g. 16000
   autoUpload?: boolean; // default true
+  persist?: boolean; // journal chunks to IndexedDB so crashed recordings can be recovered (default false)
+  review?: boolean; // stop() enters 'reviewing' instead of uploading; see confirmUpload() (default false)
+  progressiveUpload?: boolean; // upload multipart parts while recording; not available with the wav engine (default false)
+  transcription?: TranscriptionOptions; // stream audio for live transcripts, see onTranscript; not with the wav engine
+  onTranscript?: (event: TranscriptEvent) => void; // partial and final transcripts while recording
+  multipart?: MultipartOptions; // part concurrency and per-part retries (default: the SDK's multipart option)
+  uploadQueue?: UploadQueue; // failed uploads go here instead of waiting for retryUpload(); set by the SDK's uploadQueue option
+  reviewPeakCount?: number; // waveform peaks computed for review (default: 200)
   onStateChange?: (state: RecorderState) => void;
+  onTransition?: (from: RecorderState, to: RecorderState, reason: TransitionReason) => void;
   onRecordProgress?: (seconds: number) => void;
+  onLevel?: (rms: number, peak: number) => void; // live input level, 0..1
+  waveformLength?: number; // peaks kept in recorder.waveform (default: 100)
+  vad?: VADOptions; // voice activity detection: auto-stop on silence, auto-start on speech
   onUploadProgress?: (percentage: number) => void;
+  onUploadProgressDetailed?: (progress: UploadProgressDetail) => void; // bytes, speed and ETA; not for progressiveUpload
+  onUploadPhase?: (phase: UploadPhase) => void; // e.g. 'completing' while multipart parts are assembled
   onComplete?: (result: UploadResult) => void;
   onError?: (error: unknown) => void;
   onCancel?: () => void;
+  onDeviceLost?: (device: AudioInputDevice) => void; // active microphone went away; the recording is stopped
 }
 
-export type RecorderState = 'idle' | 'recording' | 'stopped' | 'uploading' | 'uploaded' | 'error';
+export type RecorderState =
+  | 'idle'
+  | 'armed'
+  | 'recording'
+  | 'paused'
+  | 'stopped'
+  | 'reviewing'
+  | 'uploading'
+  | 'uploaded'
+  | 'error';
+
+/**
+ * Why a state change happened; auto-stop reasons are passed through as-is
+ */
+export type TransitionReason =
+  | 'start'
+  | 'speech'
+  | 'pause'
+  | 'resume'
+  | 'stop'
+  | AutoStopReason
+  | 'review'
+  | 'upload'
+  | 'upload_complete'
+  | 'upload_failed'
+  | 'upload_queued'
+  | 'upload_cancelled'
+  | 'recording_failed'
+  | 'retry'
+  | 'discard'
+  | 'cancel'
+  | 'reset';
+
+/**
+ * Allowed transitions; anything else is a programming error
+ */
+const TRANSITIONS: Record<RecorderState, readonly RecorderState[]> = {
+  idle: ['armed', 'recording'],
+  armed: ['recording', 'idle', 'error'],
+  recording: ['paused', 'stopped', 'idle', 'error'],
+  paused: ['recording', 'stopped', 'idle', 'error'],
+  stopped: ['reviewing', 'uploading', 'idle', 'armed', 'recording', 'error'],
+  reviewing: ['uploading', 'idle'],
+  uploading: ['uploaded', 'error', 'stopped', 'reviewing'], // back to stopped/reviewing only on cancelUpload()
+  uploaded: ['idle', 'armed', 'recording'],
+  error: ['uploading', 'idle', 'armed', 'recording']
+};
+
+/**
+ * Events emitted by VoiceRecorder; each maps to its listener arguments
+ */
+export interface RecorderEvents {
+  state: [state: RecorderState, from: RecorderState];
+  transition: [from: RecorderState, to: RecorderState, reason: TransitionReason];
+  progress: [seconds: number];
+  uploadProgress: [percentage: number];
+  uploadProgressDetailed: [progress: UploadProgressDetail];
+  transcript: [event: TranscriptEvent];
+  complete: [result: UploadResult];
+  error: [error: unknown];
+  cancel: [];
+  deviceLost: [device: AudioInputDevice];
+}
+
+/**
+ * Immutable view of the recorder for external stores (useSyncExternalStore,
+ * Svelte stores, Vue shallowRef). A new object is created on every change.
+ */
+export interface RecorderSnapshot {
+  readonly state: RecorderState;
+  readonly duration: number;
+  readonly uploadProgress: number; // 0-100 while 'uploading'
+  readonly uploadPaused: boolean; // see pauseUpload()
+  readonly uploadPhase: UploadPhase | null; // null outside 'uploading'
+  readonly transcript: string;
+  readonly review: RecordingReview | null;
+  readonly error: VocaFuseError | null;
+  readonly canRetry: boolean;
+}
+
+export interface RecordingReview {
+  voicenote: VoicenoteResult;
+  url: string; // object URL for playback; revoked when the review ends
+  peaks: number[]; // waveform peaks (0..1), empty if the browser cannot decode the format
+}
 
 export class VoiceRecorder {
   private audioRecorder: AudioRecorder;
@@ -23,27 +162,120 @@ export class VoiceRecorder {
   private _state: RecorderState = 'idle';
   private _duration: number = 0;
   private recordingResult: VoicenoteResult | null = null;
+  private _review: RecordingReview | null = null;
+  private streaming: StreamingUploader | null = null;
+  private transcription: TranscriptionStream | null = null;
+  private finalTranscript: string[] = [];
+  private _error: VocaFuseError | null = null;
+  private _uploadProgress: number = 0;
+  private _uploadPhase: UploadPhase | null = null;
+  private activeUpload: { controller: AbortController; settled: Promise<void> } | null = null;
+  private trimming = false; // trim() is re-encoding; the recording must not change under it
+  private finishingStream = false; // the progressive upload is sending its tail; it cannot be paused
+  private readonly emitter = new TypedEmitter<RecorderEvents>();
+  private readonly subscribers = new Set<() => void>();
+  private snapshot: RecorderSnapshot;
+  private readonly store: RecordingStore | undefined;
+  private readonly uploadFields: UploadFields;
+  private stopping: Promise<UploadResult | VoicenoteResult> | null = null;
 
   constructor(
-    httpClient: HttpClient,
-    tokenManager: TokenManager,
+    private readonly httpClient: HttpClient,
+    private readonly tokenManager: TokenManager,
     private options: RecorderOptions = {}
   ) {
+    this.uploadFields = validateUploadFields(options);
+    this.store = options.persist && RecordingStore.isSupported() ? new RecordingStore() : undefined;
+
     this.audioRecorder = new AudioRecorder({
       maxDuration: options.maxDuration ?? 60,
+      durationWarning: options.maxDurationWarning ?? 0,
+      onDurationWarning: (remaining) => this.options.onMaxDurationWarning?.(remaining),
+      deviceId: options.deviceId,
+      audioConstraints: options.audioConstraints ?? {},
+      audioBitsPerSecond: options.audioBitsPerSecond ?? 128000,
+      engine: options.engine ?? 'mediarecorder',
+      mimeType: options.mimeType,
+      preferredFormats: options.preferredFormats ?? [],
+      outputSampleRate: options.outputSampleRate,
       onProgress: (duration) => {
         this._duration = duration;
         this.options.onRecordProgress?.(duration);
+        this.emitter.emit('progress', duration);
+        this.updateSnapshot();
+      },
+      onDataAvailable: (chunk) => {
+        this.streaming?.append(chunk);
+        this.transcription?.send(chunk);
+      },
+      // Smaller chunks keep live transcripts responsive
+      timeslice: options.transcription ? 250 : 1000,
+      onLevel: options.onLevel,
+      waveformLength: options.waveformLength ?? 100,
+      vad: options.vad && {
+        ...options.vad,
+        onSpeechStart: () => {
+          if (this._state === 'armed') this.transition('recording', 'speech');
+          this.options.vad?.onSpeechStart?.();
+        }
+      },
+      onAutoStop: (reason) => this.autoStop(reason),
+      onDeviceLost: (device) => {
+        this.options.onDeviceLost?.(device);
+        this.emitter.emit('deviceLost', device);
+      },
+      store: this.store,
+      onStorageError: (error) => this.reportError(error),
+      onError: (error) => {
+        // The recording is lost, so nothing is left to stream or transcribe
+        this.abortStreaming().catch(() => {});
+        this.endTranscription(false);
+        this.fail(error, 'recording_failed');
       }
     });
     
+    // Upload errors are reported by fail(), which also moves to 'error'
     this.uploader = new VocaFuseUploader(httpClient, tokenManager, {
-      onProgress: options.onUploadProgress,
-      onComplete: options.onComplete,
-      onError: (error) => this.options.onError?.(error)
+      onProgress: (percentage) => this.handleUploadProgress(percentage),
+      onUploadProgressDetailed: (progress) => {
+        this.options.onUploadProgressDetailed?.(progress);
+        this.emitter.emit('uploadProgressDetailed', progress);
+      },
+      onPhase: (phase) => this.handleUploadPhase(phase),
+      onComplete: (result) => this.handleComplete(result),
+      multipart: options.multipart
     });
+    this.snapshot = this.createSnapshot();
+  }
+
+  /**
+   * Listen for a recorder event; returns a function that removes the listener
+   */
+  on<K extends keyof RecorderEvents>(event: K, listener: Listener<RecorderEvents[K]>): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  once<K extends keyof RecorderEvents>(event: K, listener: Listener<RecorderEvents[K]>): () => void {
+    return this.emitter.once(event, listener);
   }
 
+  off<K extends keyof RecorderEvents>(event: K, listener: Listener<RecorderEvents[K]>): void {
+    this.emitter.off(event, listener);
+  }
+
+  /**
+   * Be notified whenever getSnapshot() changes; returns an unsubscribe function.
+   * Bound, so it can be passed as-is to useSyncExternalStore.
+   */
+  readonly subscribe = (listener: () => void): (() => void) => {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  };
+
+  readonly getSnapshot = (): RecorderSnapshot => this.snapshot;
+
   get state(): RecorderState {
     return this._state;
   }
@@ -52,70 +284,645 @@ export class VoiceRecorder {
     return this._duration;
   }
 
+  /**
+   * The error that moved the recorder into 'error', if it is there
+   */
+  get error(): VocaFuseError | null {
+    return this._error;
+  }
+
+  /**
+   * Whether the last failed upload can be retried with retryUpload()
+   */
+  get canRetry(): boolean {
+    return this._state === 'error' && this.recordingResult !== null;
+  }
+
+  /**
+   * Playback URL and waveform of the recording under review, while in 'reviewing'
+   */
+  get review(): RecordingReview | null {
+    return this._review;
+  }
+
+  /**
+   * Final transcript segments received so far, joined
+   */
+  get transcript(): string {
+    return this.finalTranscript.join(' ');
+  }
+
+  get deviceId(): string | undefined {
+    return this.audioRecorder.deviceId;
+  }
+
+  get activeDevice(): AudioInputDevice | null {
+    return this.audioRecorder.activeDevice;
+  }
+
+  get waveform(): number[] {
+    return this.audioRecorder.waveform;
+  }
+
   get isRecording(): boolean {
     return this._state === 'recording';
   }
 
+  get isPaused(): boolean {
+    return this._state === 'paused';
+  }
+
+  get isArmed(): boolean {
+    return this._state === 'armed';
+  }
+
   get isUploading(): boolean {
     return this._state === 'uploading';
   }
 
-  async start(): Promise<void> {
-    if (this._state !== 'idle') {
+  /**
+   * Start recording from the microphone, or from caller-supplied stream(s)
+   * such as a WebRTC remote stream or getDisplayMedia() tab audio
+   */
+  async start(source?: RecordingSource): Promise<void> {
+    this.assertNotTrimming('start recording');
+    // A failed upload keeps its recording until retryUpload() or reset()
+    if (this.canRetry) {
       throw new VoicenoteError(
         ErrorCode.RECORDING_FAILED,
-        `Cannot start recording from state: ${this._state}`
+        'Cannot start recording while a failed upload is pending; call retryUpload() or reset() first'
       );
     }
-    this.setState('recording');
-    await this.audioRecorder.start();
+    const next = this.audioRecorder.waitsForSpeech ? 'armed' : 'recording';
+    this.assertTransition(next, 'start recording');
+
+    // Drop whatever the previous recording left behind
+    if (this._state !== 'idle') await this.discardRecording();
+    this.finalTranscript = [];
+    this.transition(next, 'start');
+    this.beginStreaming();
+    this.beginTranscription();
+    try {
+      await this.audioRecorder.start(source);
+    } catch (error) {
+      await this.abortStreaming();
+      this.endTranscription(false);
+      this.fail(error, 'recording_failed');
+      throw error;
+    }
   }
 
   async stop(): Promise<UploadResult | VoicenoteResult> {
-    if (this._state !== 'recording') {
+    return this.finishRecording();
+  }
+
+  /**
+   * Stop capture, then review, upload or hand over the result.
+   * `reason` is set when the recorder stopped on its own. A second stop while
+   * one is running (double click, user stop racing an auto-stop) joins it.
+   */
+  private finishRecording(reason?: AutoStopReason): Promise<UploadResult | VoicenoteResult> {
+    if (!this.stopping) {
+      this.stopping = this.stopAndHandOver(reason).finally(() => {
+        this.stopping = null;
+      });
+    }
+    return this.stopping;
+  }
+
+  private async stopAndHandOver(reason?: AutoStopReason): Promise<UploadResult | VoicenoteResult> {
+    if (this._state === 'armed') {
+      // Nothing was captured yet: release the microphone and report it
+      await this.audioRecorder.cancel();
+      this.transition('idle', reason ?? 'stop');
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        'Recording stopped before any speech was detected'
+      );
+    }
+
+    // Not assertTransition(): 'uploading' -> 'stopped' exists only for cancelUpload()
+    if (this._state !== 'recording' && this._state !== 'paused') {
       throw new VoicenoteError(
         ErrorCode.RECORDING_FAILED,
         `Cannot stop recording from state: ${this._state}`
       );
     }
 
-    this.recordingResult = await this.audioRecorder.stop();
-    this.setState('stopped');
+    try {
+      this.recordingResult = await this.audioRecorder.stop();
+    } catch (error) {
+      await this.abortStreaming();
+      this.endTranscription(false);
+      this.fail(error, 'recording_failed');
+      throw error;
+    }
+    this.endTranscription(true);
+    this.transition('stopped', reason ?? 'stop');
+
+    if (reason === 'max_duration') {
+      this.options.onMaxDurationReached?.(this.recordingResult);
+    }
+
+    if (this.options.review) {
+      await this.beginReview(this.recordingResult);
+      return this.recordingResult;
+    }
     
     // Auto-upload
     const autoUpload = this.options.autoUpload !== false; // default true
     if (autoUpload) {
-      this.setState('uploading');
-      const result = await this.uploader.upload(this.recordingResult);
-      this.setState('uploaded');
-      return result;
+      return this.performUpload(this.recordingResult, 'upload');
     }
+
+    // The caller owns the raw result from here on
+    await this.releasePersisted(this.recordingResult);
     return this.recordingResult;
   }
 
+  /**
+   * Upload the recording held for review (or kept after stop() with autoUpload: false)
+   */
+  async confirmUpload(): Promise<UploadResult> {
+    this.assertNotTrimming('upload');
+    if ((this._state !== 'reviewing' && this._state !== 'stopped') || !this.recordingResult) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot confirm upload from state: ${this._state}`
+      );
+    }
+    return this.performUpload(this.recordingResult, 'upload');
+  }
+
+  /**
+   * Upload the recording again after a failed upload
+   */
+  async retryUpload(): Promise<UploadResult> {
+    if (!this.canRetry) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot retry upload from state: ${this._state}`
+      );
+    }
+    return this.performUpload(this.recordingResult!, 'retry');
+  }
+
+  /**
+   * Discard any retained recording or error and return to 'idle'
+   */
+  async reset(): Promise<void> {
+    if (this._state === 'idle') return;
+    this.assertNotTrimming('reset');
+    this.assertTransition('idle', 'reset');
+
+    await this.audioRecorder.cancel();
+    this.endTranscription(false);
+    await this.discardRecording();
+    this.transition('idle', 'reset');
+  }
+
+  /**
+   * Replace the recording under review with a trimmed copy
+   */
+  async trim(options: TrimOptions): Promise<VoicenoteResult> {
+    this.assertNotTrimming('trim');
+    if ((this._state !== 'reviewing' && this._state !== 'stopped') || !this.recordingResult) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot trim recording from state: ${this._state}`
+      );
+    }
+
+    const original = this.recordingResult;
+    this.trimming = true;
+    try {
+      const trimmed = await trimRecording(original, options);
+      // Parts already streamed hold the untrimmed audio
+      await this.abortStreaming();
+      this.recordingResult = trimmed;
+      this._duration = trimmed.duration;
+      await this.releasePersisted(original);
+
+      if (this._review) {
+        this.endReview();
+        await this.beginReview(trimmed);
+      }
+      this.updateSnapshot();
+      return trimmed;
+    } finally {
+      this.trimming = false;
+    }
+  }
+
+  private assertNotTrimming(action: string): void {
+    if (this.trimming) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot ${action} while the recording is being trimmed`
+      );
+    }
+  }
+
+  /**
+   * Throw away the recording held for review and start a new one
+   */
+  async discardAndRerecord(source?: RecordingSource): Promise<void> {
+    this.assertNotTrimming('discard the recording');
+    if (this._state !== 'reviewing' && this._state !== 'stopped') {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot discard recording from state: ${this._state}`
+      );
+    }
+
+    await this.discardRecording();
+    this.transition('idle', 'discard');
+    await this.start(source);
+  }
+
+  /**
+   * Abort the upload in progress, including in-flight part uploads. The
+   * recording is kept in 'reviewing' (or 'stopped') so it can be uploaded again.
+   * Resolves once the upload has settled.
+   */
+  async cancelUpload(): Promise<void> {
+    const upload = this.activeUpload;
+    if (this._state !== 'uploading' || !upload) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot cancel upload from state: ${this._state}`
+      );
+    }
+    upload.controller.abort();
+    await upload.settled;
+  }
+
+  /**
+   * Hold the upload in progress; parts already sent are kept. Not available
+   * while a progressive upload is finishing.
+   */
+  pauseUpload(): void {
+    if (this._state !== 'uploading') {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot pause upload from state: ${this._state}`
+      );
+    }
+    if (this.finishingStream) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        'Cannot pause upload while a progressive upload is finishing'
+      );
+    }
+    this.uploader.pause();
+    this.updateSnapshot();
+  }
+
+  resumeUpload(): void {
+    if (this._state !== 'uploading') {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot resume upload from state: ${this._state}`
+      );
+    }
+    this.uploader.resume();
+    this.updateSnapshot();
+  }
+
+  /**
+   * Stop recording (or uploading) and throw the recording away
+   */
   async cancel(): Promise<void> {
+    if (this._state === 'uploading') await this.cancelUpload();
+    if (this._state !== 'idle') this.assertTransition('idle', 'cancel');
+
     await this.audioRecorder.cancel();
-    this.setState('idle');
-    this._duration = 0;
-    this.recordingResult = null;
+    this.endTranscription(false);
+    await this.discardRecording();
+    this.transition('idle', 'cancel');
     this.options.onCancel?.();
+    this.emitter.emit('cancel');
+  }
+
+  /**
+   * Select the input device for the next recording (undefined = system default)
+   */
+  setDevice(deviceId: string | undefined): void {
+    this.audioRecorder.deviceId = deviceId;
   }
 
   pause(): void {
+    if (this._state !== 'recording') {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot pause recording from state: ${this._state}`
+      );
+    }
     this.audioRecorder.pause();
+    this.transition('paused', 'pause');
   }
 
   resume(): void {
+    if (this._state !== 'paused') {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot resume recording from state: ${this._state}`
+      );
+    }
     this.audioRecorder.resume();
+    this.transition('recording', 'resume');
   }
 
   destroy(): void {
     this.audioRecorder.cancel();
+    this.activeUpload?.controller.abort();
+    this.abortStreaming().catch(() => {});
+    this.endTranscription(false);
+    this.endReview();
+    // A recording still held for review or retry becomes recoverable
+    if (this.store && this.recordingResult?.persistenceId) {
+      this.store.release(this.recordingResult.persistenceId);
+    }
+    this.emitter.removeAllListeners();
+    this.subscribers.clear();
+  }
+
+  private async beginReview(voicenote: VoicenoteResult): Promise<void> {
+    const peaks = await computeBlobPeaks(voicenote.blob, this.options.reviewPeakCount ?? 200);
+    this._review = {
+      voicenote,
+      url: URL.createObjectURL(voicenote.blob),
+      peaks
+    };
+    this.transition('reviewing', 'review');
+  }
+
+  private endReview(): void {
+    if (this._review) {
+      URL.revokeObjectURL(this._review.url);
+      this._review = null;
+    }
+  }
+
+  private beginStreaming(): void {
+    if (!this.options.progressiveUpload || this.audioRecorder.format === 'wav') return;
+
+    this.streaming = new StreamingUploader(this.httpClient, this.tokenManager, {
+      multipart: this.options.multipart,
+      onProgress: (percentage) => this.handleUploadProgress(percentage)
+    });
+    this.streaming.begin(this.audioRecorder.mimeType, this.audioRecorder.format, this.uploadFields);
+  }
+
+  private beginTranscription(): void {
+    const options = this.options.transcription;
+    // WAV engine chunks are headerless PCM, which the stream protocol does not describe
+    if (!options?.endpoint || !TranscriptionStream.isSupported() || this.audioRecorder.format === 'wav') return;
+
+    // start() replaces the array, so a stream still finishing the previous
+    // recording can tell that its transcripts are stale
+    const finals = this.finalTranscript;
+    this.transcription = new TranscriptionStream(this.tokenManager, {
+      ...options,
+      endpoint: options.endpoint,
+      mimeType: this.audioRecorder.mimeType,
+      format: this.audioRecorder.format,
+      onTranscript: (event) => {
+        if (finals !== this.finalTranscript) return;
+        if (event.type === 'final' && event.text) finals.push(event.text);
+        this.options.onTranscript?.(event);
+        this.emitter.emit('transcript', event);
+        if (event.type === 'final') this.updateSnapshot();
+      },
+      onError: (error) => this.reportError(error)
+    });
+    this.transcription.connect();
+  }
+
+  /**
+   * Stop streaming audio; when graceful, remaining final transcripts
+   * still arrive in the background
+   */
+  private endTranscription(graceful: boolean): void {
+    const transcription = this.transcription;
+    this.transcription = null;
+    if (!transcription) return;
+
+    if (graceful) transcription.finish().catch(() => transcription.close());
+    else transcription.close();
   }
 
-  private setState(newState: RecorderState): void {
-    this._state = newState;
-    this.options.onStateChange?.(newState);
+  private async abortStreaming(): Promise<void> {
+    const streaming = this.streaming;
+    this.streaming = null;
+    await streaming?.abort();
+  }
+
+  /**
+   * Complete the progressive upload if one is running, falling back to a
+   * regular upload of the whole recording when streaming failed
+   */
+  private async uploadVoicenote(voicenote: VoicenoteResult, signal: AbortSignal): Promise<UploadResult> {
+    const streaming = this.streaming;
+    this.streaming = null;
+
+    if (streaming && !streaming.failed) {
+      try {
+        // Parts went up while recording; what is left is the tail and the complete call
+        this.handleUploadPhase('completing');
+        this.finishingStream = true;
+        const result = await streaming.finish(voicenote, { signal });
+        this.handleComplete(result);
+        return result;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        // Fall through to a regular upload
+      } finally {
+        this.finishingStream = false;
+      }
+    }
+    await streaming?.abort();
+
+    return this.uploader.upload(voicenote, { ...this.uploadFields, signal });
+  }
+
+  /**
+   * Upload a stopped recording. On failure the recording is kept and the
+   * recorder moves to 'error', from where retryUpload() can pick it up.
+   */
+  private performUpload(voicenote: VoicenoteResult, reason: TransitionReason): Promise<UploadResult> {
+    this.transition('uploading', reason);
+    const controller = new AbortController();
+    const upload = this.runUpload(voicenote, controller.signal);
+    this.activeUpload = { controller, settled: upload.then(() => {}, () => {}) };
+    return upload;
+  }
+
+  private async runUpload(voicenote: VoicenoteResult, signal: AbortSignal): Promise<UploadResult> {
+    let result: UploadResult;
+    try {
+      result = await this.uploadVoicenote(voicenote, signal);
+    } catch (error) {
+      this.activeUpload = null;
+      if (signal.aborted) {
+        // Keep the recording: confirmUpload() uploads it again, start() or reset() drops it
+        this.transition(this._review ? 'reviewing' : 'stopped', 'upload_cancelled');
+        throw error instanceof UploadCancelledError ? error : new UploadCancelledError();
+      }
+      const queued = await this.queueFailedUpload(voicenote, error);
+      if (queued) {
+        this.fail(queued, 'upload_queued');
+        throw queued;
+      }
+      this.fail(error, 'upload_failed');
+      throw error;
+    }
+
+    this.activeUpload = null;
+    await this.releasePersisted(voicenote);
+    this.endReview();
+    this.transition('uploaded', 'upload_complete');
+    return result;
+  }
+
+  /**
+   * Hand a failed upload to the SDK's upload queue, if enabled. Returns the
+   * error to report, or null when the recording stays here for retryUpload().
+   */
+  private async queueFailedUpload(voicenote: VoicenoteResult, error: unknown): Promise<UploadError | null> {
+    const queue = this.options.uploadQueue;
+    if (!queue || !UploadQueue.isQueueable(error)) return null;
+
+    let queued: QueuedUpload;
+    try {
+      queued = await queue.enqueue(voicenote, error, this.uploadFields);
+    } catch (_storageError) {
+      return null;
+    }
+
+    // The queue has its own copy now
+    await this.releasePersisted(voicenote);
+    this.endReview();
+    this.recordingResult = null;
+    return new UploadError(
+      'Upload failed; the recording was queued and will be retried automatically',
+      error instanceof Error ? error : undefined,
+      true,
+      { queuedUploadId: queued.id }
+    );
+  }
+
+  private async discardRecording(): Promise<void> {
+    await this.abortStreaming();
+    const voicenote = this.recordingResult;
+    this.endReview();
+    this.recordingResult = null;
+    this._duration = 0;
+    if (voicenote) await this.releasePersisted(voicenote);
+  }
+
+  private async releasePersisted(result: VoicenoteResult): Promise<void> {
+    if (!this.store || !result.persistenceId) return;
+    await this.store.delete(result.persistenceId).catch(() => {});
+  }
+
+  private autoStop(reason: AutoStopReason): void {
+    if (this._state === 'armed' && reason !== 'silence') {
+      this.cancel().catch(() => {});
+      return;
+    }
+    if (this._state !== 'recording' && this._state !== 'paused') return;
+    this.finishRecording(reason).catch(() => {
+      // Already reported through fail()
+    });
+  }
+
+  /**
+   * Enter 'error' and report it. A recording that was stopped is kept.
+   */
+  private fail(error: unknown, reason: TransitionReason): void {
+    this._error = wrapUnknownError(error, {
+      operation: reason === 'recording_failed' ? 'record voicenote' : 'upload voicenote'
+    });
+    if (TRANSITIONS[this._state].includes('error')) this.transition('error', reason);
+    this.reportError(error);
+  }
+
+  private assertTransition(to: RecorderState, action: string): void {
+    if (!TRANSITIONS[this._state].includes(to)) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Cannot ${action} from state: ${this._state}`
+      );
+    }
+  }
+
+  private transition(to: RecorderState, reason: TransitionReason): void {
+    const from = this._state;
+    if (from === to) return;
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        `Invalid recorder transition: ${from} -> ${to} (${reason})`
+      );
+    }
+
+    this._state = to;
+    if (to !== 'error') this._error = null;
+    if (to === 'uploading') this._uploadProgress = 0;
+    if (to !== 'uploading') this._uploadPhase = null;
+    this.updateSnapshot();
+    this.options.onTransition?.(from, to, reason);
+    this.options.onStateChange?.(to);
+    this.emitter.emit('transition', from, to, reason);
+    this.emitter.emit('state', to, from);
+  }
+
+  private handleUploadProgress(reported: number): void {
+    // Progressive parts can be retried and a failed stream falls back to a
+    // fresh upload; neither may move the bar back within one 'uploading' state
+    const percentage = Math.max(this._uploadProgress, reported);
+    this._uploadProgress = percentage;
+    this.options.onUploadProgress?.(percentage);
+    this.emitter.emit('uploadProgress', percentage);
+    this.updateSnapshot();
+  }
+
+  private handleUploadPhase(phase: UploadPhase): void {
+    this._uploadPhase = phase;
+    this.options.onUploadPhase?.(phase);
+    this.updateSnapshot();
+  }
+
+  private handleComplete(result: UploadResult): void {
+    this.options.onComplete?.(result);
+    this.emitter.emit('complete', result);
+  }
+
+  private reportError(error: unknown): void {
+    this.options.onError?.(error);
+    this.emitter.emit('error', error);
+  }
+
+  private createSnapshot(): RecorderSnapshot {
+    return Object.freeze({
+      state: this._state,
+      duration: this._duration,
+      uploadProgress: this._uploadProgress,
+      uploadPaused: this.uploader.isPaused,
+      uploadPhase: this._uploadPhase,
+      transcript: this.transcript,
+      review: this._review,
+      error: this._error,
+      canRetry: this.canRetry
+    });
+  }
+
+  private updateSnapshot(): void {
+    this.snapshot = this.createSnapshot();
+    for (const listener of [...this.subscribers]) {
+      listener();
+    }
   }
 }
 
@@ -0,0 +1,276 @@
+/**
+ * <vocafuse-recorder> custom element for pages without a framework.
+ *
+ *   <vocafuse-recorder token-endpoint="/api/token" max-duration="60"></vocafuse-recorder>
+ *   <script>VocaFuseSDK.defineRecorderElement()</script>
+ *
+ * The class is created inside defineRecorderElement() so importing the SDK
+ * during server-side rendering does not touch HTMLElement.
+ */
+
+import { VocaFuseSDK } from './index.js';
+import type { RecorderOptions, RecorderState, TransitionReason, VoiceRecorder } from './recorder-controller.js';
+import type { UploadResult } from './upload.js';
+
+export interface VocaFuseRecorderElement extends HTMLElement {
+  sdk: VocaFuseSDK | null; // set to share an SDK instead of using token-endpoint
+  options: RecorderOptions; // extra recorder options, applied to the next recorder
+  readonly recorder: VoiceRecorder | null;
+  readonly state: RecorderState;
+}
+
+export interface RecorderStateChangeDetail {
+  state: RecorderState;
+  from: RecorderState;
+  reason: TransitionReason;
+}
+
+export interface RecorderCompleteDetail {
+  result: UploadResult;
+}
+
+export interface RecorderErrorDetail {
+  error: unknown;
+}
+
+const OBSERVED_ATTRIBUTES = ['token-endpoint', 'api-base-url', 'max-duration', 'auto-upload'];
+
+const TEMPLATE = `
+  <style>
+    :host { display: inline-flex; align-items: center; gap: 0.5em; font: inherit; }
+    :host([hidden]) { display: none; }
+    [hidden] { display: none !important; }
+    button { font: inherit; cursor: pointer; }
+    button:disabled { cursor: default; }
+    [part="timer"] { font-variant-numeric: tabular-nums; }
+  </style>
+  <button part="record-button" type="button" aria-pressed="false">
+    <span data-label="record"><slot name="record-label">Record</slot></span>
+    <span data-label="stop" hidden><slot name="stop-label">Stop</slot></span>
+    <span data-label="upload" hidden><slot name="upload-label">Upload</slot></span>
+    <span data-label="retry" hidden><slot name="retry-label">Retry upload</slot></span>
+  </button>
+  <button part="pause-button" type="button" hidden>
+    <span data-label="pause"><slot name="pause-label">Pause</slot></span>
+    <span data-label="resume" hidden><slot name="resume-label">Resume</slot></span>
+  </button>
+  <span part="timer" role="timer" aria-label="Recording time">0:00</span>
+  <progress part="progress" max="100" value="0" aria-label="Upload progress" hidden></progress>
+  <span part="status" role="status" aria-live="polite"></span>
+  <slot></slot>
+`;
+
+const STATUS_TEXT: Record<RecorderState, string> = {
+  idle: '',
+  armed: 'Waiting for speech',
+  recording: 'Recording',
+  paused: 'Paused',
+  stopped: 'Stopped',
+  reviewing: 'Ready to upload',
+  uploading: 'Uploading',
+  uploaded: 'Uploaded',
+  error: 'Something went wrong'
+};
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Register the element (default tag: vocafuse-recorder). Safe to call more than once.
+ */
+export function defineRecorderElement(tagName: string = 'vocafuse-recorder'): void {
+  if (customElements.get(tagName)) return;
+
+  class RecorderElement extends HTMLElement implements VocaFuseRecorderElement {
+    static get observedAttributes(): string[] {
+      return OBSERVED_ATTRIBUTES;
+    }
+
+    options: RecorderOptions = {};
+    private _sdk: VocaFuseSDK | null = null;
+    private ownsSdk = false;
+    private _recorder: VoiceRecorder | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private readonly root: ShadowRoot;
+    private readonly recordButton: HTMLButtonElement;
+    private readonly pauseButton: HTMLButtonElement;
+    private readonly timer: HTMLElement;
+    private readonly progress: HTMLProgressElement;
+    private readonly status: HTMLElement;
+
+    constructor() {
+      super();
+      this.root = this.attachShadow({ mode: 'open' });
+      this.root.innerHTML = TEMPLATE;
+      this.recordButton = this.root.querySelector('[part="record-button"]')!;
+      this.pauseButton = this.root.querySelector('[part="pause-button"]')!;
+      this.timer = this.root.querySelector('[part="timer"]')!;
+      this.progress = this.root.querySelector('[part="progress"]')!;
+      this.status = this.root.querySelector('[part="status"]')!;
+
+      this.recordButton.addEventListener('click', () => this.toggleRecording());
+      this.pauseButton.addEventListener('click', () => this.togglePause());
+    }
+
+    get sdk(): VocaFuseSDK | null {
+      return this._sdk;
+    }
+
+    set sdk(sdk: VocaFuseSDK | null) {
+      this.releaseRecorder();
+      this._sdk = sdk;
+      this.ownsSdk = false;
+    }
+
+    get recorder(): VoiceRecorder | null {
+      return this._recorder;
+    }
+
+    get state(): RecorderState {
+      return this._recorder?.state ?? 'idle';
+    }
+
+    connectedCallback(): void {
+      this.render();
+    }
+
+    disconnectedCallback(): void {
+      this.releaseRecorder();
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+      if (oldValue === newValue) return;
+      // A recording in progress keeps its settings; the next one picks up the change
+      if (this._recorder && this.isBusy()) return;
+
+      if ((name === 'token-endpoint' || name === 'api-base-url') && this.ownsSdk) {
+        this._sdk = null;
+      }
+      this.releaseRecorder();
+    }
+
+    private ensureRecorder(): VoiceRecorder {
+      if (this._recorder) return this._recorder;
+
+      if (!this._sdk) {
+        this._sdk = new VocaFuseSDK({
+          tokenEndpoint: this.getAttribute('token-endpoint') || '',
+          apiBaseUrl: this.getAttribute('api-base-url') || undefined
+        });
+        this.ownsSdk = true;
+      }
+
+      const maxDuration = Number(this.getAttribute('max-duration'));
+      const recorder = this._sdk.createRecorder({
+        ...this.options,
+        maxDuration: maxDuration > 0 ? maxDuration : this.options.maxDuration,
+        autoUpload: this.hasAttribute('auto-upload')
+          ? this.getAttribute('auto-upload') !== 'false'
+          : this.options.autoUpload
+      });
+
+      const listeners = [
+        recorder.subscribe(() => this.render()),
+        recorder.on('transition', (from, to, reason) => {
+          this.emit<RecorderStateChangeDetail>('vocafuse-statechange', { state: to, from, reason });
+        }),
+        recorder.on('complete', (result) => {
+          this.emit<RecorderCompleteDetail>('vocafuse-complete', { result });
+        }),
+        recorder.on('error', (error) => {
+          this.emit<RecorderErrorDetail>('vocafuse-error', { error });
+        })
+      ];
+      this.unsubscribe = () => listeners.forEach(remove => remove());
+      this._recorder = recorder;
+      return recorder;
+    }
+
+    private releaseRecorder(): void {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+      this._recorder?.destroy();
+      this._recorder = null;
+      this.render();
+    }
+
+    private isBusy(): boolean {
+      return this.state !== 'idle' && this.state !== 'uploaded' && this.state !== 'error';
+    }
+
+    private toggleRecording(): void {
+      let action: Promise<unknown>;
+      try {
+        const recorder = this.ensureRecorder();
+        switch (recorder.state) {
+          case 'armed':
+          case 'recording':
+          case 'paused':
+            action = recorder.stop();
+            break;
+          case 'reviewing':
+          case 'stopped':
+            action = recorder.confirmUpload();
+            break;
+          case 'error':
+            action = recorder.canRetry ? recorder.retryUpload() : recorder.start();
+            break;
+          default:
+            action = recorder.start();
+        }
+      } catch (error) {
+        // e.g. missing token-endpoint
+        this.emit<RecorderErrorDetail>('vocafuse-error', { error });
+        return;
+      }
+      // Failures are reported through the recorder's 'error' event
+      action.catch(() => {});
+    }
+
+    private togglePause(): void {
+      const recorder = this._recorder;
+      if (recorder?.state === 'recording') recorder.pause();
+      else if (recorder?.state === 'paused') recorder.resume();
+    }
+
+    private render(): void {
+      const snapshot = this._recorder?.getSnapshot();
+      const state = snapshot?.state ?? 'idle';
+      const capturing = state === 'armed' || state === 'recording' || state === 'paused';
+      const retry = state === 'error' && !!snapshot?.canRetry;
+      const upload = state === 'stopped' || state === 'reviewing';
+
+      this.setAttribute('state', state);
+      this.recordButton.disabled = state === 'uploading';
+      this.recordButton.setAttribute('aria-pressed', String(capturing));
+      this.showLabel('record', !capturing && !retry && !upload);
+      this.showLabel('stop', capturing);
+      this.showLabel('upload', upload);
+      this.showLabel('retry', retry);
+
+      this.pauseButton.hidden = state !== 'recording' && state !== 'paused';
+      this.showLabel('pause', state !== 'paused');
+      this.showLabel('resume', state === 'paused');
+
+      this.timer.textContent = formatTime(snapshot?.duration ?? 0);
+      this.progress.hidden = state !== 'uploading';
+      this.progress.value = snapshot?.uploadProgress ?? 0;
+
+      const message = state === 'error' && snapshot?.error ? snapshot.error.message : STATUS_TEXT[state];
+      if (this.status.textContent !== message) this.status.textContent = message;
+    }
+
+    private showLabel(name: string, visible: boolean): void {
+      const label = this.root.querySelector<HTMLElement>(`[data-label="${name}"]`);
+      if (label) label.hidden = !visible;
+    }
+
+    private emit<T>(type: string, detail: T): void {
+      this.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }));
+    }
+  }
+
+  customElements.define(tagName, RecorderElement);
+}
@@ -2,16 +2,70 @@
  * VocaFuse Audio Recorder
  * 
  * Cross-platform MediaRecorder implementation with format detection,
- * duration limits, and browser compatibility handling.
+ * duration limits, and browser compatibility handling. An AudioWorklet
+ * engine is available for uncompressed WAV capture.
  */
 
 import { VoicenoteError, ErrorCode, wrapUnknownError } from './errors.js';
+import { LevelMeter } from './level-meter.js';
+import { VoiceActivityDetector, type VADOptions } from './vad.js';
+import { describeTrackDevice, type AudioInputDevice } from './devices.js';
+import { PcmRecorder } from './pcm-recorder.js';
+import { StreamMixer } from './stream-mixer.js';
+import type { RecordingStore, RecordingWriter } from './persistence.js';
+
+export type AutoStopReason = 'silence' | 'device_lost' | 'source_ended' | 'max_duration';
+
+/**
+ * Caller-supplied audio to record instead of the microphone. Several
+ * streams are mixed into one recording.
+ */
+export type RecordingSource = MediaStream | MediaStream[];
+
+export type RecordingEngine = 'mediarecorder' | 'wav';
+
+/**
+ * MediaRecorder formats in order of preference
+ */
+export const DEFAULT_MIME_TYPES = [
+  'audio/webm;codecs=opus',    // Chrome, Edge, Android Chrome
+  'audio/ogg;codecs=opus',     // Firefox (all platforms)
+  'audio/mp4;codecs=mp4a',     // Safari (all platforms)
+  'audio/webm',                // Fallback
+  'audio/mp4'                  // Fallback
+];
+
+export interface AudioCaptureConstraints {
+  echoCancellation?: boolean; // default: true
+  noiseSuppression?: boolean; // default: true
+  autoGainControl?: boolean; // default: true
+  channelCount?: number; // default: 1 (mono)
+  sampleRate?: number; // Requested capture rate in Hz (browser default if unset)
+  sampleSize?: number; // Requested bits per sample (browser default if unset)
+}
 
 export interface RecorderConfig {
   maxDuration?: number; // Maximum voicenote duration in seconds (default: 60)
+  durationWarning?: number; // Seconds before maxDuration to fire onDurationWarning (default: 0 = off)
+  onDurationWarning?: (remaining: number) => void; // Approaching maxDuration
+  deviceId?: string; // Audio input device to capture from (default: system default)
+  audioConstraints?: AudioCaptureConstraints; // Capture processing; disable for music/ambient audio
   audioBitsPerSecond?: number; // Audio bitrate (optional)
+  engine?: RecordingEngine; // 'mediarecorder' (compressed, default) or 'wav' (AudioWorklet PCM)
+  mimeType?: string; // Exact MediaRecorder MIME type to use; fails if unsupported
+  preferredFormats?: string[]; // MIME types to try first, before the default list
+  outputSampleRate?: number; // WAV engine only: resample to this rate, e.g. 16000
   onProgress?: (duration: number) => void; // Progress callback
-  onDataAvailable?: (chunk: Blob) => void; // Data chunk callback
+  onDataAvailable?: (chunk: Blob) => void; // Data chunk callback (raw 16-bit PCM with the WAV engine)
+  timeslice?: number; // ms between data chunks (default: 1000)
+  onLevel?: (rms: number, peak: number) => void; // Input level callback, enables metering
+  waveformLength?: number; // Number of waveform peaks kept while metering (default: 100)
+  vad?: VADOptions; // Voice activity detection, enables metering
+  onAutoStop?: (reason: AutoStopReason) => void; // Recorder wants to stop on its own
+  onDeviceLost?: (device: AudioInputDevice) => void; // Active input device ended (e.g. unplugged)
+  store?: RecordingStore; // Journal chunks to IndexedDB as they arrive
+  onStorageError?: (error: VoicenoteError) => void; // Journaling failed; recording continues in memory
+  onError?: (error: VoicenoteError) => void; // Encoder failed mid-recording; capture has been torn down
 }
 
 export interface VoicenoteResult {
@@ -19,12 +73,32 @@ export interface VoicenoteResult {
   mimeType: string;
   duration: number;
   size: number;
-  format: string; // 'webm', 'ogg', or 'mp4'
+  format: string; // 'webm', 'ogg', 'mp4' or 'wav'
+  sampleRate?: number; // Capture sample rate reported by the track
+  channels?: number; // Capture channel count reported by the track
+  bitRate?: number; // Encoder bitrate in bits per second
+  persistenceId?: string; // IndexedDB copy of this recording, when persistence is enabled
+}
+
+/**
+ * Subset of the MediaRecorder surface shared by all recording engines
+ */
+interface EncodingEngine {
+  readonly state: 'inactive' | 'recording' | 'paused';
+  readonly audioBitsPerSecond: number;
+  start(timeslice?: number): void;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  addEventListener(type: 'dataavailable', listener: (event: BlobEvent) => void): void;
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void;
+  addEventListener(type: 'stop', listener: () => void, options?: AddEventListenerOptions): void;
 }
 
 export enum RecorderState {
   INACTIVE = 'inactive',
-  RECORDING = 'voicenote',
+  ARMED = 'armed',
+  RECORDING = 'recording',
   PAUSED = 'paused'
 }
 
@@ -32,23 +106,99 @@ export enum RecorderState {
  * Cross-platform audio recorder using MediaRecorder API
  */
 export class AudioRecorder {
-  private mediaRecorder: MediaRecorder | null = null;
+  private mediaRecorder: EncodingEngine | null = null;
   private mediaStream: MediaStream | null = null;
+  private ownsStream = true; // false for caller-supplied streams, whose tracks we must not stop
+  private mixer: StreamMixer | null = null;
+  private trackListeners: Array<() => void> = [];
   private chunks: Blob[] = [];
   private startTime: number = 0;
   private pausedTime: number = 0;
   private progressTimer: number | null = null;
-  private readonly config: Required<RecorderConfig>;
+  private armed = false;
+  private preroll: Blob[] = []; // chunks encoded while armed, kept until speech is confirmed
+  private onsetAt = 0; // when the level last crossed the VAD threshold while armed
+  private prerollMs = 0; // encoded time of earlier onsets that did not turn into speech
+  private durationWarned = false;
+  private stopping: Promise<VoicenoteResult> | null = null; // shared by concurrent stop() calls
+  private readonly config: Required<Omit<RecorderConfig, 'vad' | 'deviceId' | 'outputSampleRate' | 'mimeType' | 'store'>>;
+  private readonly store: RecordingStore | undefined;
+  private writer: RecordingWriter | null = null;
+  private readonly outputSampleRate: number | undefined;
+  private trackSettings: MediaTrackSettings = {};
+  private selectedDeviceId: string | undefined;
   private readonly supportedMimeType: string;
+  private readonly levelMeter: LevelMeter | null;
+  private readonly vad: VoiceActivityDetector | null;
+  private readonly vadOptions: VADOptions;
 
   constructor(config: RecorderConfig = {}) {
     this.config = {
       maxDuration: 60, // 60 seconds default
+      durationWarning: 0,
+      onDurationWarning: () => {},
       audioBitsPerSecond: 128000, // 128kbps default
+      audioConstraints: {},
+      engine: 'mediarecorder',
+      preferredFormats: [],
       onProgress: () => {},
       onDataAvailable: () => {},
+      timeslice: 1000,
+      onLevel: () => {},
+      waveformLength: 100,
+      onAutoStop: () => {},
+      onDeviceLost: () => {},
+      onStorageError: () => {},
+      onError: () => {},
       ...config
     };
+    this.store = config.store;
+    this.selectedDeviceId = config.deviceId;
+    this.outputSampleRate = config.outputSampleRate;
+
+    // Metering is opt-in: only build an audio graph when someone listens
+    this.levelMeter = (config.onLevel || config.vad) && LevelMeter.isSupported()
+      ? new LevelMeter({
+        waveformLength: this.config.waveformLength,
+        onLevel: (rms, peak) => this.handleLevel(rms, peak)
+      })
+      : null;
+
+    this.vadOptions = config.vad || {};
+    this.vad = config.vad && this.levelMeter
+      ? new VoiceActivityDetector({
+        ...config.vad,
+        onSpeechStart: () => this.handleSpeechStart(),
+        onVoiceOnset: () => this.handleVoiceOnset(),
+        onVoiceDropped: () => this.handleVoiceDropped(),
+        onSpeechEnd: () => this.vadOptions.onSpeechEnd?.(),
+        onSilence: () => this.handleSilence()
+      })
+      : null;
+
+    if (this.config.engine === 'wav') {
+      if (!PcmRecorder.isSupported()) {
+        throw new VoicenoteError(
+          ErrorCode.RECORDING_NOT_SUPPORTED,
+          'AudioWorklet is not supported in this browser, WAV recording is unavailable'
+        );
+      }
+      this.supportedMimeType = 'audio/wav';
+      return;
+    }
+
+    if (config.mimeType) {
+      if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported(config.mimeType)) {
+        throw new VoicenoteError(
+          ErrorCode.RECORDING_NOT_SUPPORTED,
+          `MIME type ${config.mimeType} is not supported by MediaRecorder in this browser`,
+          undefined,
+          { mimeType: config.mimeType, supportedFormats: AudioRecorder.getSupportedFormats() }
+        );
+      }
+      this.supportedMimeType = config.mimeType;
+      return;
+    }
 
     // Detect best supported format for this browser
     this.supportedMimeType = this.detectSupportedMimeType();
@@ -66,6 +216,7 @@ export class AudioRecorder {
    */
   get state(): RecorderState {
     if (!this.mediaRecorder) return RecorderState.INACTIVE;
+    if (this.armed) return RecorderState.ARMED;
     return this.mediaRecorder.state as RecorderState;
   }
 
@@ -76,15 +227,56 @@ export class AudioRecorder {
     return this.supportedMimeType;
   }
 
+  /**
+   * Container format of the recording ('webm', 'ogg', 'mp4' or 'wav')
+   */
+  get format(): string {
+    return this.extractFormatFromMimeType(this.supportedMimeType);
+  }
+
+  /**
+   * Input device used for the next start() (undefined = system default)
+   */
+  get deviceId(): string | undefined {
+    return this.selectedDeviceId;
+  }
+
+  set deviceId(deviceId: string | undefined) {
+    this.selectedDeviceId = deviceId;
+  }
+
+  /**
+   * Device behind the active capture, or null when not capturing
+   */
+  get activeDevice(): AudioInputDevice | null {
+    if (!this.ownsStream) return null;
+    const track = this.mediaStream?.getAudioTracks()[0];
+    return track ? describeTrackDevice(track) : null;
+  }
+
   /**
    * Get current voicenote duration in seconds
    */
   get currentDuration(): number {
-    if (this.state === RecorderState.INACTIVE) return 0;
+    if (this.state === RecorderState.INACTIVE || this.state === RecorderState.ARMED) return 0;
     if (this.state === RecorderState.PAUSED) return this.pausedTime;
     return (Date.now() - this.startTime) / 1000;
   }
 
+  /**
+   * Rolling buffer of recent waveform peaks (empty when metering is disabled)
+   */
+  get waveform(): number[] {
+    return this.levelMeter ? this.levelMeter.waveform : [];
+  }
+
+  /**
+   * Whether start() arms the recorder and waits for speech instead of recording immediately
+   */
+  get waitsForSpeech(): boolean {
+    return !!this.vad && !!this.vadOptions.autoStart;
+  }
+
   /**
    * Check if MediaRecorder is supported in this browser
    */
@@ -94,8 +286,11 @@ export class AudioRecorder {
 
   /**
    * Request microphone permission and start voicenote
+   *
+   * When a source is given it is recorded instead of the microphone; its
+   * tracks stay owned by the caller and are not stopped on cleanup.
    */
-  async start(): Promise<void> {
+  async start(source?: RecordingSource): Promise<void> {
     try {
       if (this.state !== RecorderState.INACTIVE) {
         throw new VoicenoteError(
@@ -104,28 +299,34 @@ export class AudioRecorder {
         );
       }
 
-      // Request microphone access
-      this.mediaStream = await this.requestMicrophoneAccess();
+      // Request microphone access, or adopt the caller's streams
+      const inputTracks = source
+        ? this.useExternalSource(source)
+        : this.useMicrophone(await this.requestMicrophoneAccess());
+      const mediaStream = this.mediaStream!;
+      this.trackSettings = mediaStream.getAudioTracks()[0]?.getSettings() || {};
       
-      // Create MediaRecorder with detected format
-      this.mediaRecorder = new MediaRecorder(this.mediaStream, {
-        mimeType: this.supportedMimeType,
-        audioBitsPerSecond: this.config.audioBitsPerSecond
-      });
+      // Create the encoding engine
+      this.mediaRecorder = await this.createEngine(mediaStream);
 
       // Set up event listeners
       this.setupEventListeners();
+      this.watchInputTracks(inputTracks);
 
       // Clear previous voicenote data
       this.chunks = [];
-      this.startTime = Date.now();
-      this.pausedTime = 0;
-
-      // Start voicenote
-      this.mediaRecorder.start(1000); // Collect data every 1 second
+      this.vad?.reset();
+
+      // With auto-start the MediaRecorder only starts once the level crosses the
+      // VAD threshold, so the silence waited through never ends up in the voicenote
+      if (this.waitsForSpeech) {
+        this.armed = true;
+      } else {
+        this.beginRecording();
+      }
 
-      // Start progress timer
-      this.startProgressTimer();
+      // Start input level metering
+      this.levelMeter?.attach(mediaStream);
 
     } catch (error) {
       await this.cleanup();
@@ -134,6 +335,16 @@ export class AudioRecorder {
         throw error;
       }
       
+      // OverconstrainedError is not an Error subclass in every browser
+      if ((error as { name?: string } | null)?.name === 'OverconstrainedError') {
+        throw new VoicenoteError(
+          ErrorCode.DEVICE_NOT_FOUND,
+          'The selected microphone is not available',
+          error instanceof Error ? error : undefined,
+          { deviceId: this.selectedDeviceId }
+        );
+      }
+
       // Handle specific browser errors
       if (error instanceof Error) {
         if (error.name === 'NotAllowedError') {
@@ -177,6 +388,7 @@ export class AudioRecorder {
     this.mediaRecorder!.pause();
     this.pausedTime = (Date.now() - this.startTime) / 1000;
     this.stopProgressTimer();
+    this.levelMeter?.pause();
   }
 
   /**
@@ -193,14 +405,26 @@ export class AudioRecorder {
     this.mediaRecorder!.resume();
     this.startTime = Date.now() - (this.pausedTime * 1000);
     this.startProgressTimer();
+    this.levelMeter?.resume();
+    this.vad?.resume();
   }
 
   /**
-   * Stop voicenote and return the result
+   * Stop voicenote and return the result. A stop already in progress is
+   * joined instead of running the stop handler twice.
    */
-  async stop(): Promise<VoicenoteResult> {
+  stop(): Promise<VoicenoteResult> {
+    if (!this.stopping) {
+      this.stopping = this.stopEngine().finally(() => {
+        this.stopping = null;
+      });
+    }
+    return this.stopping;
+  }
+
+  private stopEngine(): Promise<VoicenoteResult> {
     return new Promise((resolve, reject) => {
-      if (this.state === RecorderState.INACTIVE) {
+      if (!this.mediaRecorder) {
         reject(new VoicenoteError(
           ErrorCode.RECORDING_FAILED,
           'Cannot stop voicenote: no active voicenote'
@@ -208,18 +432,31 @@ export class AudioRecorder {
         return;
       }
 
+      if (this.state === RecorderState.ARMED) {
+        // The encoder may be running for a speech onset that was never confirmed
+        if (this.mediaRecorder.state !== 'inactive') this.mediaRecorder.stop();
+        this.cleanup().then(() => reject(new VoicenoteError(
+          ErrorCode.RECORDING_FAILED,
+          'Cannot stop voicenote: no speech was detected'
+        )));
+        return;
+      }
+
+      // Taken before the engine stops: afterwards a paused recording no longer
+      // reports PAUSED, and the paused gap must not count
+      const duration = this.elapsedSeconds();
+
       // Set up one-time stop handler
       const handleStop = async () => {
         try {
           // Wait a bit for final data to be available
           await new Promise(resolve => setTimeout(resolve, 100));
           
-          // Calculate duration BEFORE cleanup (which resets startTime)
-          // Use the actual elapsed time since start, not the getter
-          const duration = (Date.now() - this.startTime) / 1000;
-          
           // Create blob from collected chunks
-          const blob = new Blob(this.chunks, { type: this.supportedMimeType });
+          const engine = this.mediaRecorder;
+          const blob = engine instanceof PcmRecorder
+            ? engine.encode(this.chunks)
+            : new Blob(this.chunks, { type: this.supportedMimeType });
           const format = this.extractFormatFromMimeType(this.supportedMimeType);
 
           const result: VoicenoteResult = {
@@ -227,9 +464,16 @@ export class AudioRecorder {
             mimeType: this.supportedMimeType,
             duration,
             size: blob.size,
-            format
+            format,
+            sampleRate: engine instanceof PcmRecorder ? engine.sampleRate : this.trackSettings.sampleRate,
+            channels: engine instanceof PcmRecorder ? engine.channels : this.trackSettings.channelCount,
+            bitRate: this.resolveBitRate(blob.size, duration),
+            persistenceId: this.writer?.id
           };
 
+          // Make sure every journaled chunk has landed before handing the result over
+          await this.writer?.close();
+
           // Cleanup after creating the result
           await this.cleanup();
           resolve(result);
@@ -239,6 +483,13 @@ export class AudioRecorder {
         }
       };
 
+      if (this.mediaRecorder.state === 'inactive') {
+        // MediaRecorder already stopped on its own, e.g. when its input device went away
+        this.stopProgressTimer();
+        handleStop();
+        return;
+      }
+
       this.mediaRecorder!.addEventListener('stop', handleStop, { once: true });
       this.mediaRecorder!.stop();
       this.stopProgressTimer();
@@ -249,9 +500,15 @@ export class AudioRecorder {
    * Cancel voicenote and cleanup without returning data
    */
   async cancel(): Promise<void> {
-    if (this.state === RecorderState.INACTIVE) return;
+    if (!this.mediaRecorder) return;
+
+    const writer = this.writer;
+    this.writer = null;
+    await writer?.discard();
     
-    this.mediaRecorder!.stop();
+    if (this.mediaRecorder!.state !== 'inactive') {
+      this.mediaRecorder!.stop();
+    }
     this.stopProgressTimer();
     await this.cleanup();
   }
@@ -260,39 +517,30 @@ export class AudioRecorder {
    * Get supported audio formats for this browser
    */
   static getSupportedFormats(): string[] {
-    const formats = [
-      'audio/webm;codecs=opus',    // Chrome, Edge, Android Chrome
-      'audio/ogg;codecs=opus',     // Firefox (all platforms)
-      'audio/mp4;codecs=mp4a',     // Safari (all platforms)
-      'audio/webm',                // Fallback
-      'audio/mp4'                  // Fallback
-    ];
-    
-    return formats.filter(format => MediaRecorder.isTypeSupported(format));
+    if (typeof MediaRecorder === 'undefined') return [];
+    return DEFAULT_MIME_TYPES.filter(format => MediaRecorder.isTypeSupported(format));
   }
 
   private detectSupportedMimeType(): string {
-    const formats = [
-      'audio/webm;codecs=opus',    // Chrome, Edge, Android Chrome
-      'audio/ogg;codecs=opus',     // Firefox (all platforms)
-      'audio/mp4;codecs=mp4a',     // Safari (all platforms)
-      'audio/webm',                // Fallback
-      'audio/mp4'                  // Fallback
-    ];
-
+    if (typeof MediaRecorder === 'undefined') return '';
+    const formats = [...this.config.preferredFormats, ...DEFAULT_MIME_TYPES];
     return formats.find(format => MediaRecorder.isTypeSupported(format)) || '';
   }
 
   private async requestMicrophoneAccess(): Promise<MediaStream> {
     try {
-      return await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          channelCount: 1 // Mono audio for voice voicenote
-        }
-      });
+      const constraints = this.config.audioConstraints;
+      const audio: MediaTrackConstraints = {
+        echoCancellation: constraints.echoCancellation ?? true,
+        noiseSuppression: constraints.noiseSuppression ?? true,
+        autoGainControl: constraints.autoGainControl ?? true,
+        channelCount: constraints.channelCount ?? 1 // Mono audio for voice voicenote
+      };
+      if (constraints.sampleRate) audio.sampleRate = constraints.sampleRate;
+      if (constraints.sampleSize) audio.sampleSize = constraints.sampleSize;
+      if (this.selectedDeviceId) audio.deviceId = { exact: this.selectedDeviceId };
+
+      return await navigator.mediaDevices.getUserMedia({ audio });
     } catch (error) {
       if (error instanceof Error) {
         if (error.name === 'NotAllowedError') {
@@ -307,14 +555,154 @@ export class AudioRecorder {
     }
   }
 
+  private async createEngine(stream: MediaStream): Promise<EncodingEngine> {
+    if (this.config.engine === 'wav') {
+      const recorder = new PcmRecorder(stream, { sampleRate: this.outputSampleRate });
+      await recorder.prepare();
+      return recorder;
+    }
+
+    return new MediaRecorder(stream, {
+      mimeType: this.supportedMimeType,
+      audioBitsPerSecond: this.config.audioBitsPerSecond
+    });
+  }
+
+  private beginRecording(): void {
+    const prerolled = this.armed && this.mediaRecorder!.state === 'recording';
+    this.armed = false;
+    this.durationWarned = false;
+    this.startTime = prerolled ? this.onsetAt - this.prerollMs : Date.now();
+    this.pausedTime = 0;
+
+    this.writer = this.store
+      ? this.store.createWriter({
+        mimeType: this.supportedMimeType,
+        format: this.extractFormatFromMimeType(this.supportedMimeType),
+        sampleRate: this.mediaRecorder instanceof PcmRecorder ? this.mediaRecorder.sampleRate : this.trackSettings.sampleRate,
+        channels: this.mediaRecorder instanceof PcmRecorder ? this.mediaRecorder.channels : this.trackSettings.channelCount,
+        bitRate: this.mediaRecorder!.audioBitsPerSecond || undefined
+      }, (error) => this.config.onStorageError(error))
+      : null;
+
+    if (prerolled) {
+      // The encoder has been running since the speech onset; hand over what it has
+      const preroll = this.preroll;
+      this.preroll = [];
+      preroll.forEach(chunk => this.acceptChunk(chunk));
+    } else {
+      // Start voicenote
+      this.mediaRecorder!.start(this.config.timeslice); // Collect data every second by default
+    }
+
+    // Start progress timer
+    this.startProgressTimer();
+  }
+
+  private handleLevel(rms: number, peak: number): void {
+    this.config.onLevel(rms, peak);
+    this.vad?.process(rms);
+  }
+
+  /**
+   * While armed, start encoding at the first loud sample instead of waiting for
+   * minSpeechDuration, so the onset of the first word is not cut off
+   */
+  private handleVoiceOnset(): void {
+    const engine = this.mediaRecorder;
+    if (!this.armed || !engine) return;
+
+    this.onsetAt = Date.now();
+    if (engine.state === 'inactive') engine.start(this.config.timeslice);
+    else if (engine.state === 'paused') engine.resume();
+  }
+
+  /**
+   * A noise too short to be speech: pause so the silence after it is not encoded
+   */
+  private handleVoiceDropped(): void {
+    const engine = this.mediaRecorder;
+    if (!this.armed || engine?.state !== 'recording') return;
+
+    engine.pause();
+    this.prerollMs += Date.now() - this.onsetAt;
+  }
+
+  private handleSpeechStart(): void {
+    if (this.armed && this.mediaRecorder) {
+      this.beginRecording();
+    }
+    this.vadOptions.onSpeechStart?.();
+  }
+
+  private handleSilence(): void {
+    if (this.vadOptions.autoStop === false) return;
+    if (this.state !== RecorderState.RECORDING) return;
+    this.config.onAutoStop('silence');
+  }
+
+  private useMicrophone(stream: MediaStream): MediaStreamTrack[] {
+    this.mediaStream = stream;
+    this.ownsStream = true;
+    return stream.getAudioTracks();
+  }
+
+  private useExternalSource(source: RecordingSource): MediaStreamTrack[] {
+    const streams = Array.isArray(source) ? source : [source];
+    const tracks = streams.flatMap(stream => stream.getAudioTracks());
+
+    if (tracks.length === 0) {
+      throw new VoicenoteError(
+        ErrorCode.RECORDING_FAILED,
+        'Cannot start voicenote: the provided MediaStream has no audio tracks'
+      );
+    }
+
+    this.ownsStream = false;
+
+    if (streams.length > 1) {
+      if (!StreamMixer.isSupported()) {
+        throw new VoicenoteError(
+          ErrorCode.RECORDING_NOT_SUPPORTED,
+          'Mixing several streams requires the Web Audio API'
+        );
+      }
+      this.mixer = new StreamMixer(streams);
+      this.mediaStream = this.mixer.stream;
+    } else {
+      // Record audio only: video tracks would make MediaRecorder reject the audio MIME type
+      this.mediaStream = new MediaStream(tracks);
+    }
+
+    return tracks;
+  }
+
+  private watchInputTracks(tracks: MediaStreamTrack[]): void {
+    const live = new Set(tracks);
+
+    tracks.forEach(track => {
+      const handleEnded = () => {
+        live.delete(track);
+        if (this.ownsStream) {
+          this.config.onDeviceLost(describeTrackDevice(track));
+          this.config.onAutoStop('device_lost');
+        } else if (live.size === 0) {
+          // Caller-supplied sources: stop once every input is gone
+          this.config.onAutoStop('source_ended');
+        }
+      };
+      track.addEventListener('ended', handleEnded, { once: true });
+      this.trackListeners.push(() => track.removeEventListener('ended', handleEnded));
+    });
+  }
+
   private setupEventListeners(): void {
     if (!this.mediaRecorder) return;
 
     this.mediaRecorder.addEventListener('dataavailable', (event) => {
-      if (event.data && event.data.size > 0) {
-        this.chunks.push(event.data);
-        this.config.onDataAvailable(event.data);
-      }
+      if (!event.data || event.data.size === 0) return;
+      if (this.armed) this.preroll.push(event.data);
+      else this.acceptChunk(event.data);
     });
 
     this.mediaRecorder.addEventListener('error', (event) => {
@@ -324,29 +712,35 @@ export class AudioRecorder {
         event.error || undefined
       );
       
-      this.cleanup().then(() => {
-        throw error;
-      });
+      this.cleanup().then(() => this.config.onError(error));
     });
   }
 
+  private acceptChunk(chunk: Blob): void {
+    this.chunks.push(chunk);
+    this.writer?.append(chunk, this.elapsedSeconds());
+    this.config.onDataAvailable(chunk);
+  }
+
   private startProgressTimer(): void {
     this.stopProgressTimer(); // Clear any existing timer
     
     this.progressTimer = window.setInterval(() => {
       const duration = this.currentDuration;
       
-      // Check duration limit
+      // Check duration limit: the owner stops the recording so the audio is kept
       if (duration >= this.config.maxDuration) {
-        this.stop().catch(error => {
-          throw new VoicenoteError(
-            ErrorCode.RECORDING_TOO_LONG,
-            `Voicenote stopped: maximum duration of ${this.config.maxDuration} seconds exceeded`,
-            error as Error
-          );
-        });
+        this.stopProgressTimer();
+        this.config.onProgress(this.config.maxDuration);
+        this.config.onAutoStop('max_duration');
         return;
       }
+
+      const remaining = this.config.maxDuration - duration;
+      if (this.config.durationWarning > 0 && !this.durationWarned && remaining <= this.config.durationWarning) {
+        this.durationWarned = true;
+        this.config.onDurationWarning(Math.ceil(remaining));
+      }
       
       this.config.onProgress(duration);
     }, 100); // Update every 100ms for smooth progress
@@ -361,22 +755,61 @@ export class AudioRecorder {
 
   private async cleanup(): Promise<void> {
     this.stopProgressTimer();
+    this.levelMeter?.detach();
+
+    // Anything still journaled stays recoverable
+    if (this.writer) {
+      this.writer.close().catch(() => {});
+      this.writer = null;
+    }
+    this.vad?.reset();
+    this.armed = false;
+    this.preroll = [];
+    this.onsetAt = 0;
+    this.prerollMs = 0;
     
+    // Detach before stopping tracks so our own stop() is not reported as a device loss
+    this.trackListeners.forEach(remove => remove());
+    this.trackListeners = [];
+
+    if (this.mixer) {
+      this.mixer.close();
+      this.mixer = null;
+    }
+
     if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop());
+      if (this.ownsStream) {
+        this.mediaStream.getTracks().forEach(track => track.stop());
+      }
       this.mediaStream = null;
     }
+    this.ownsStream = true;
     
     this.mediaRecorder = null;
+    this.trackSettings = {};
     this.chunks = [];
     this.startTime = 0;
     this.pausedTime = 0;
   }
 
+  private elapsedSeconds(): number {
+    if (this.state === RecorderState.PAUSED) return this.pausedTime;
+    return this.startTime ? (Date.now() - this.startTime) / 1000 : 0;
+  }
+
+  private resolveBitRate(size: number, duration: number): number | undefined {
+    // Prefer what the encoder actually used over what was requested
+    const encoderBitRate = this.mediaRecorder?.audioBitsPerSecond;
+    if (encoderBitRate) return encoderBitRate;
+    if (duration > 0) return Math.round((size * 8) / duration);
+    return undefined;
+  }
+
   private extractFormatFromMimeType(mimeType: string): string {
     if (mimeType.includes('webm')) return 'webm';
     if (mimeType.includes('ogg')) return 'ogg';
     if (mimeType.includes('mp4')) return 'mp4';
+    if (mimeType.includes('wav')) return 'wav';
     return 'unknown';
   }
 }
@@ -0,0 +1,69 @@
+/**
+ * VocaFuse Stream Mixer
+ *
+ * Mixes the audio of several MediaStreams (e.g. microphone, remote WebRTC
+ * peer and tab audio) into a single stream through a WebAudio graph.
+ */
+
+import { getAudioContextClass } from './audio-context.js';
+
+export class StreamMixer {
+  private audioContext: AudioContext | null;
+  private sources: MediaStreamAudioSourceNode[] = [];
+  private destination: MediaStreamAudioDestinationNode | null;
+
+  constructor(streams: MediaStream[]) {
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) {
+      throw new Error('Web Audio API is not available');
+    }
+
+    this.audioContext = new AudioContextClass();
+    this.destination = this.audioContext.createMediaStreamDestination();
+
+    streams
+      .filter(stream => stream.getAudioTracks().length > 0)
+      .forEach(stream => {
+        const source = this.audioContext!.createMediaStreamSource(stream);
+        source.connect(this.destination!);
+        this.sources.push(source);
+      });
+  }
+
+  /**
+   * Check if stream mixing is supported in this browser
+   */
+  static isSupported(): boolean {
+    return getAudioContextClass() !== null;
+  }
+
+  /**
+   * The mixed output stream
+   */
+  get stream(): MediaStream {
+    if (!this.destination) {
+      throw new Error('StreamMixer has been closed');
+    }
+    return this.destination.stream;
+  }
+
+  get sampleRate(): number | undefined {
+    return this.audioContext?.sampleRate;
+  }
+
+  /**
+   * Tear down the audio graph. Input tracks are left running: they belong to the caller.
+   */
+  close(): void {
+    this.sources.forEach(source => source.disconnect());
+    this.sources = [];
+
+    this.destination?.stream.getTracks().forEach(track => track.stop());
+    this.destination = null;
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => {});
+      this.audioContext = null;
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Progressive upload for VocaFuse SDK
+ *
+ * Uploads recorder chunks as multipart parts while recording is still in
+ * progress, so stop() only has to flush the last part and complete.
+ */
+import { HttpClient } from './client.js';
+import { TokenManager } from './token.js';
+import { UploadCancelledError, UploadError, VocaFuseError, wrapUnknownError } from './errors.js';
+import {
+  VocaFuseUploader,
+  uploadRequestFields,
+  type CompletedPart,
+  type CompleteMultipartRequest,
+  type MultipartOptions,
+  type MultipartTarget,
+  type PresignedUrlResponse,
+  type UploadFields,
+  type UploadOptions,
+  type UploadRequest,
+  type UploadResult
+} from './upload.js';
+import type { UploadMetadata } from './upload-metadata.js';
+import type { VoicenoteResult } from './recorder.js';
+
+export interface StreamingUploadConfig {
+  minPartSize?: number; // Storage minimum for every part but the last (default: 5 MiB)
+  multipart?: MultipartOptions; // `retry` applies per part; parts go up one at a time
+  timeout?: number;
+  onProgress?: (percentage: number) => void; // Reported while finishing
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export class StreamingUploader {
+  private readonly config: Required<Omit<StreamingUploadConfig, 'onProgress' | 'multipart'>> & Pick<StreamingUploadConfig, 'onProgress'>;
+  private readonly uploader: VocaFuseUploader; // Shared part retry, URL refresh and API calls
+  private session: Promise<PresignedUrlResponse> | null = null;
+  private readonly partUrls = new Map<number, string>(); // Filled from the session, refreshed on expiry
+  private buffer: Blob[] = [];
+  private bufferedBytes = 0;
+  private nextPartNumber = 1;
+  private uploadedBytes = 0;
+  private completedParts: CompletedPart[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private failure: VocaFuseError | null = null;
+  private mimeType = '';
+  private metadata: UploadMetadata = {};
+  private readonly controller = new AbortController(); // Aborts in-flight requests on abort()
+
+  constructor(httpClient: HttpClient, tokenManager: TokenManager, config: StreamingUploadConfig = {}) {
+    const { multipart, ...rest } = config;
+    this.config = {
+      minPartSize: MIN_PART_SIZE,
+      timeout: 60000,
+      ...rest
+    };
+    this.uploader = new VocaFuseUploader(httpClient, tokenManager, { timeout: this.config.timeout, multipart });
+  }
+
+  /**
+   * Whether a part failed for good; the caller should fall back to a regular upload
+   */
+  get failed(): boolean {
+    return this.failure !== null;
+  }
+
+  /**
+   * Open the multipart upload on the API
+   */
+  begin(mimeType: string, format: string, fields: UploadFields = {}): void {
+    const { processing, ...metadata } = fields;
+    this.mimeType = mimeType;
+    this.metadata = metadata;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const request: UploadRequest = {
+      file_name: `voicenote-${timestamp}.${format}`,
+      file_size: 0,
+      audio_format: format,
+      duration_seconds: 0,
+      use_multipart: true,
+      streaming: true,
+      sdk_metadata: {
+        duration_seconds: 0,
+        codec: format,
+        file_size_bytes: 0
+      },
+      ...uploadRequestFields({ ...metadata, processing })
+    };
+
+    this.session = this.uploader.post<PresignedUrlResponse>('/upload', request).then((session) => {
+      session.upload_info?.parts.forEach(part => this.partUrls.set(part.part_number, part.presigned_url));
+      return session;
+    });
+    this.session.catch(error => this.fail(error));
+  }
+
+  /**
+   * Buffer a recorder chunk, uploading a part whenever enough data is buffered
+   */
+  append(chunk: Blob): void {
+    if (!this.session || this.failure) return;
+
+    this.buffer.push(chunk);
+    this.bufferedBytes += chunk.size;
+
+    if (this.bufferedBytes >= this.config.minPartSize) {
+      this.flushPart();
+    }
+  }
+
+  /**
+   * Upload the remaining buffer as the final part and complete the upload
+   */
+  async finish(voicenote: VoicenoteResult, options: UploadOptions = {}): Promise<UploadResult> {
+    if (!this.session) throw new UploadError('Streaming upload was not started', undefined, false);
+
+    const { signal } = options;
+    const cancel = () => {
+      this.abort();
+    };
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      return await this.complete(voicenote);
+    } catch (error) {
+      if (signal?.aborted) throw new UploadCancelledError();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private async complete(voicenote: VoicenoteResult): Promise<UploadResult> {
+    // The stream may not have seen the last chunk (e.g. the final dataavailable
+    // of a stopped recorder), so reconcile against the finished blob
+    const missing = voicenote.size - this.uploadedBytes - this.bufferedBytes;
+    if (missing > 0) {
+      this.buffer.push(voicenote.blob.slice(voicenote.size - missing));
+      this.bufferedBytes += missing;
+    }
+
+    this.flushPart(voicenote.size);
+    await this.queue;
+    if (this.failure) throw this.failure;
+
+    const session = await this.session!;
+    const upload = this.target(session);
+    const complete: CompleteMultipartRequest = {
+      upload_id: upload.upload_id,
+      parts: [...this.completedParts].sort((a, b) => a.part_number - b.part_number),
+      file_size: voicenote.size,
+      duration_seconds: Math.round(voicenote.duration * 100) / 100,
+      sdk_metadata: {
+        duration_seconds: Math.round(voicenote.duration * 100) / 100,
+        codec: voicenote.format,
+        file_size_bytes: voicenote.size,
+        sample_rate: voicenote.sampleRate,
+        channels: voicenote.channels,
+        bit_rate: voicenote.bitRate
+      }
+    };
+    await this.uploader.post(`/upload/${upload.voicenote_id}/complete`, complete, { signal: this.controller.signal });
+    this.config.onProgress?.(100);
+
+    return {
+      voicenote_id: session.voicenote_id,
+      upload_type: 'multipart',
+      processing_strategy: session.processing_strategy,
+      client_processed: session.client_processed,
+      s3_key: session.s3_key,
+      file_size: voicenote.size,
+      duration_seconds: voicenote.duration,
+      audio_format: voicenote.format,
+      ...this.metadata
+    };
+  }
+
+  /**
+   * Abandon the upload and tell the API to discard the uploaded parts
+   */
+  async abort(): Promise<void> {
+    if (!this.session) return;
+    this.buffer = [];
+    this.bufferedBytes = 0;
+    this.failure = this.failure || new UploadError('Streaming upload aborted', undefined, false);
+    this.controller.abort();
+
+    try {
+      const session = await this.session;
+      await this.queue;
+      await this.uploader.abortMultipart(this.target(session));
+    } catch (_error) {
+      // Best effort: the API expires incomplete uploads on its own
+    }
+  }
+
+  private flushPart(totalSize?: number): void {
+    if (this.bufferedBytes === 0) return;
+
+    const part = new Blob(this.buffer, { type: this.mimeType });
+    const partNumber = this.nextPartNumber++;
+    this.buffer = [];
+    this.bufferedBytes = 0;
+
+    this.queue = this.queue.then(async () => {
+      if (this.failure) return;
+      try {
+        const etag = await this.uploadPart(partNumber, part, totalSize);
+        this.completedParts.push({ part_number: partNumber, etag });
+        this.uploadedBytes += part.size;
+      } catch (error) {
+        this.fail(error);
+      }
+    });
+  }
+
+  private async uploadPart(partNumber: number, part: Blob, totalSize?: number): Promise<string> {
+    const upload = this.target(await this.session!);
+    return this.uploader.uploadPart(upload, partNumber, part, this.partUrls, this.controller.signal, (loaded) => {
+      if (totalSize) this.config.onProgress?.(Math.min(99, ((this.uploadedBytes + loaded) / totalSize) * 100));
+    });
+  }
+
+  private target(session: PresignedUrlResponse): MultipartTarget {
+    if (!session.upload_info) throw new UploadError('No multipart upload info provided', undefined, false);
+    return { voicenote_id: session.voicenote_id, upload_id: session.upload_info.upload_id };
+  }
+
+  private fail(error: unknown): void {
+    if (this.failure) return;
+    this.failure = error instanceof VocaFuseError
+      ? error
+      : wrapUnknownError(error, { operation: 'streaming upload' });
+    this.buffer = [];
+    this.bufferedBytes = 0;
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * VocaFuse Streaming Transcription
+ *
+ * Sends encoded audio chunks from the recorder over a WebSocket and
+ * receives partial and final transcripts while the user is speaking.
+ *
+ * Protocol (JSON text frames, audio as binary frames):
+ *   client -> {"type":"start","token","session_id","mime_type","audio_format","language?","resume_from"}
+ *   client -> <binary audio chunk>...
+ *   client -> {"type":"stop"}
+ *   server -> {"type":"partial"|"final","text","start?","end?","confidence?"}
+ *   server -> {"type":"ack","sequence"}   (optional, frees the replay buffer)
+ *   server -> {"type":"error","message","code?"}
+ *   server -> {"type":"done"}             (all finals for a stopped stream were sent)
+ */
+import { TokenManager } from './token.js';
+import { ConfigurationError, ErrorCode, NetworkError, VocaFuseError } from './errors.js';
+import type { RetryOptions } from './client.js';
+import { createRecordId } from './idb.js';
+
+export interface TranscriptEvent {
+  type: 'partial' | 'final';
+  text: string;
+  start?: number; // Seconds from the start of the recording
+  end?: number;
+  confidence?: number;
+}
+
+export type TranscriptionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface TranscriptionOptions {
+  endpoint?: string; // WebSocket URL (default: derived from the SDK apiBaseUrl)
+  language?: string; // BCP-47 hint, e.g. 'en-US'
+  reconnect?: Partial<RetryOptions>;
+  maxBufferedBytes?: number; // Audio kept for replay after a drop (default: 1 MiB)
+  finishTimeout?: number; // ms to wait for final transcripts after stop (default: 5000)
+}
+
+export interface TranscriptionStreamConfig extends TranscriptionOptions {
+  endpoint: string;
+  mimeType: string;
+  format: string;
+  onTranscript?: (event: TranscriptEvent) => void;
+  onStatusChange?: (status: TranscriptionStatus) => void;
+  onError?: (error: VocaFuseError) => void;
+}
+
+interface BufferedFrame {
+  sequence: number;
+  data: Blob;
+}
+
+export class TranscriptionStream {
+  private readonly config: TranscriptionStreamConfig;
+  private readonly retryOptions: RetryOptions;
+  private readonly sessionId = createRecordId();
+  private socket: WebSocket | null = null;
+  private status: TranscriptionStatus = 'closed';
+  private frames: BufferedFrame[] = [];
+  private bufferedBytes = 0;
+  private nextSequence = 0;
+  private sentSequence = 0; // Next sequence not yet sent on the current socket
+  private attempts = 0;
+  private reconnectTimer: number | null = null;
+  private stopping = false;
+  private closed = false;
+  private finishResolve: (() => void) | null = null;
+
+  constructor(private readonly tokenManager: TokenManager, config: TranscriptionStreamConfig) {
+    this.config = {
+      maxBufferedBytes: 1024 * 1024,
+      finishTimeout: 5000,
+      ...config
+    };
+    this.retryOptions = {
+      maxRetries: 5,
+      baseDelay: 500,
+      maxDelay: 8000,
+      backoffFactor: 2,
+      ...config.reconnect
+    };
+  }
+
+  /**
+   * Check if WebSocket streaming is supported in this browser
+   */
+  static isSupported(): boolean {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  get connectionStatus(): TranscriptionStatus {
+    return this.status;
+  }
+
+  /**
+   * Open the connection; audio sent before it is open is buffered
+   */
+  connect(): void {
+    this.closed = false;
+    this.openSocket();
+  }
+
+  /**
+   * Queue an encoded audio chunk for the server
+   */
+  send(chunk: Blob): void {
+    if (this.closed || this.stopping) return;
+
+    this.frames.push({ sequence: this.nextSequence++, data: chunk });
+    this.bufferedBytes += chunk.size;
+    this.trimReplayBuffer();
+    this.flush();
+  }
+
+  /**
+   * Signal end of audio and wait (bounded) for the remaining final transcripts
+   */
+  async finish(): Promise<void> {
+    if (this.closed) return;
+    this.stopping = true;
+
+    await new Promise<void>((resolve) => {
+      this.finishResolve = resolve;
+      setTimeout(resolve, this.config.finishTimeout);
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        this.socket.send(JSON.stringify({ type: 'stop' }));
+      }
+    });
+
+    this.close();
+  }
+
+  /**
+   * Drop the connection immediately
+   */
+  close(): void {
+    this.closed = true;
+    this.finishResolve = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close(1000, 'client closed');
+    }
+    this.frames = [];
+    this.bufferedBytes = 0;
+    this.setStatus('closed');
+  }
+
+  private async openSocket(): Promise<void> {
+    this.setStatus(this.attempts === 0 ? 'connecting' : 'reconnecting');
+
+    let token: string;
+    try {
+      token = await this.tokenManager.getToken();
+    } catch (error) {
+      this.handleDrop(error);
+      return;
+    }
+    if (this.closed) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.config.endpoint);
+    } catch (error) {
+      // Malformed endpoint: reconnecting would fail the same way
+      this.config.onError?.(new ConfigurationError(
+        `Invalid transcription endpoint: ${this.config.endpoint}`,
+        { endpoint: this.config.endpoint, cause: error instanceof Error ? error.message : String(error) }
+      ));
+      this.close();
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      if (this.socket !== socket) return;
+      this.attempts = 0;
+
+      // Resume from the oldest audio the server has not acknowledged
+      const resumeFrom = this.frames.length > 0 ? this.frames[0].sequence : this.nextSequence;
+      socket.send(JSON.stringify({
+        type: 'start',
+        token,
+        session_id: this.sessionId,
+        mime_type: this.config.mimeType,
+        audio_format: this.config.format,
+        language: this.config.language,
+        resume_from: resumeFrom
+      }));
+      this.sentSequence = resumeFrom;
+      this.setStatus('open');
+      this.flush();
+
+      if (this.stopping) socket.send(JSON.stringify({ type: 'stop' }));
+    });
+
+    socket.addEventListener('message', (event) => {
+      if (this.socket !== socket || typeof event.data !== 'string') return;
+      this.handleMessage(event.data);
+    });
+
+    socket.addEventListener('close', (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.closed) return;
+      if (this.stopping) {
+        this.finishResolve?.();
+        return;
+      }
+      this.handleDrop(new Error(`Transcription socket closed (${event.code})`));
+    });
+  }
+
+  private flush(): void {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+    this.frames
+      .filter(frame => frame.sequence >= this.sentSequence)
+      .forEach(frame => {
+        socket.send(frame.data);
+        this.sentSequence = frame.sequence + 1;
+      });
+  }
+
+  private handleMessage(raw: string): void {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(raw);
+    } catch (_error) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'partial':
+      case 'final':
+        this.config.onTranscript?.({
+          type: message.type,
+          text: String(message.text ?? ''),
+          start: typeof message.start === 'number' ? message.start : undefined,
+          end: typeof message.end === 'number' ? message.end : undefined,
+          confidence: typeof message.confidence === 'number' ? message.confidence : undefined
+        });
+        break;
+      case 'ack':
+        if (typeof message.sequence === 'number') this.acknowledge(message.sequence);
+        break;
+      case 'error':
+        this.config.onError?.(new VocaFuseError({
+          code: ErrorCode.TRANSCRIPTION_FAILED,
+          message: String(message.message ?? 'Transcription failed'),
+          context: { serverCode: message.code, sessionId: this.sessionId }
+        }));
+        break;
+      case 'done':
+        this.finishResolve?.();
+        break;
+    }
+  }
+
+  private acknowledge(sequence: number): void {
+    while (this.frames.length > 0 && this.frames[0].sequence <= sequence) {
+      this.bufferedBytes -= this.frames.shift()!.data.size;
+    }
+  }
+
+  private trimReplayBuffer(): void {
+    // Oldest audio that was already sent goes first; unsent audio is kept
+    while (
+      this.bufferedBytes > this.config.maxBufferedBytes! &&
+      this.frames.length > 1 &&
+      this.frames[0].sequence < this.sentSequence
+    ) {
+      this.bufferedBytes -= this.frames.shift()!.data.size;
+    }
+  }
+
+  private handleDrop(error: unknown): void {
+    if (this.closed) return;
+
+    if (this.attempts >= this.retryOptions.maxRetries) {
+      this.config.onError?.(new NetworkError(
+        'Transcription connection lost',
+        error instanceof Error ? error : undefined,
+        false,
+        { endpoint: this.config.endpoint, attempts: this.attempts }
+      ));
+      this.close();
+      return;
+    }
+
+    this.attempts++;
+    this.setStatus('reconnecting');
+    const delay = Math.min(
+      this.retryOptions.baseDelay * Math.pow(this.retryOptions.backoffFactor, this.attempts - 1),
+      this.retryOptions.maxDelay
+    );
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private setStatus(status: TranscriptionStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.config.onStatusChange?.(status);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * VocaFuse Recording Trimming
+ *
+ * Cuts a recorded voicenote to a time range on the client. The audio is
+ * decoded, sliced and re-encoded in its original format when MediaRecorder
+ * can do so, otherwise as WAV.
+ */
+
+import { VoicenoteError, ErrorCode, wrapUnknownError } from './errors.js';
+import { decodeAudioBlob, getAudioContextClass } from './audio-context.js';
+import { encodeWav } from './wav.js';
+import type { VoicenoteResult } from './recorder.js';
+
+export interface TrimOptions {
+  start?: number; // Seconds to cut from the beginning (default: 0)
+  end?: number; // Position in seconds where the result ends (default: full length)
+  output?: 'auto' | 'wav'; // 'auto' re-encodes to the original format when possible (default: 'auto')
+}
+
+const RESUME_TIMEOUT = 500;
+
+/**
+ * Trim a recording to [start, end] seconds
+ */
+export async function trimRecording(voicenote: VoicenoteResult, options: TrimOptions = {}): Promise<VoicenoteResult> {
+  const start = options.start ?? 0;
+
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeAudioBlob(voicenote.blob);
+  } catch (error) {
+    throw new VoicenoteError(
+      ErrorCode.INVALID_FILE_FORMAT,
+      `Cannot decode ${voicenote.mimeType} audio for trimming`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const end = Math.min(options.end ?? decoded.duration, decoded.duration);
+  if (start < 0 || end <= start) {
+    throw new VoicenoteError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid trim range: start=${start}, end=${end}`,
+      undefined,
+      { start, end, duration: decoded.duration }
+    );
+  }
+
+  try {
+    const trimmed = sliceBuffer(decoded, start, end);
+
+    if (options.output !== 'wav' && voicenote.format !== 'wav') {
+      const reencoded = await reencode(trimmed, voicenote.mimeType);
+      if (reencoded) {
+        return {
+          blob: reencoded,
+          mimeType: voicenote.mimeType,
+          duration: trimmed.duration,
+          size: reencoded.size,
+          format: voicenote.format,
+          sampleRate: trimmed.sampleRate,
+          channels: trimmed.numberOfChannels,
+          bitRate: voicenote.bitRate
+        };
+      }
+    }
+
+    const blob = encodeWav(trimmed);
+    return {
+      blob,
+      mimeType: 'audio/wav',
+      duration: trimmed.duration,
+      size: blob.size,
+      format: 'wav',
+      sampleRate: trimmed.sampleRate,
+      channels: trimmed.numberOfChannels,
+      bitRate: trimmed.sampleRate * trimmed.numberOfChannels * 16
+    };
+  } catch (error) {
+    throw wrapUnknownError(error, { operation: 'trim voicenote' });
+  }
+}
+
+function sliceBuffer(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  const from = Math.floor(start * buffer.sampleRate);
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+
+  const sliced = new AudioBuffer({
+    length: Math.max(1, to - from),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    sliced.copyToChannel(buffer.getChannelData(c).subarray(from, to), c);
+  }
+  return sliced;
+}
+
+/**
+ * Resolves to whether the context is running. resume() never settles while
+ * autoplay is blocked, so this gives up after RESUME_TIMEOUT.
+ */
+function resumeContext(context: AudioContext): Promise<boolean> {
+  return Promise.race([
+    context.resume().then(() => context.state === 'running', () => false),
+    new Promise<boolean>(resolve => setTimeout(() => resolve(false), RESUME_TIMEOUT))
+  ]);
+}
+
+/**
+ * Re-encode by playing the buffer into a MediaRecorder. This runs in real
+ * time, so it takes as long as the trimmed audio. Resolves to null when the
+ * browser cannot do it (no MediaRecorder support, audio context not allowed
+ * to run), in which case the caller falls back to WAV.
+ */
+async function reencode(buffer: AudioBuffer, mimeType: string): Promise<Blob | null> {
+  const AudioContextClass = getAudioContextClass();
+  if (!AudioContextClass || typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported(mimeType)) {
+    return null;
+  }
+
+  const context = new AudioContextClass({ sampleRate: buffer.sampleRate });
+  try {
+    if (context.state !== 'running' && !(await resumeContext(context))) return null;
+
+    const source = context.createBufferSource();
+    const destination = context.createMediaStreamDestination();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.addEventListener('dataavailable', (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    });
+
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.addEventListener('stop', () => resolve(), { once: true });
+      recorder.addEventListener('error', (event) => reject(event.error || new Error('MediaRecorder error')), { once: true });
+    });
+
+    source.addEventListener('ended', () => recorder.stop(), { once: true });
+    recorder.start();
+    source.start();
+    await stopped;
+
+    destination.stream.getTracks().forEach(track => track.stop());
+    return new Blob(chunks, { type: mimeType });
+  } finally {
+    context.close().catch(() => {});
+  }
+}
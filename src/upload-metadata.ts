@@ -0,0 +1,99 @@
+/**
+ * VocaFuse Upload Metadata
+ *
+ * Caller-supplied fields stored with a voicenote (custom metadata, tags and
+ * an external ID) so it can be matched to the caller's own records. They are
+ * checked here against the API limits before any request is made.
+ */
+
+import { VoicenoteError, ErrorCode } from './errors.js';
+
+export type MetadataValue = string | number | boolean | null;
+
+export interface UploadMetadata {
+  metadata?: Record<string, MetadataValue>; // e.g. { ticket_id: 'T-1042', user_id: 'u_17' }
+  tags?: string[];
+  external_id?: string; // your own ID for the voicenote, e.g. a session or message ID
+}
+
+const MAX_METADATA_KEYS = 50;
+const MAX_METADATA_BYTES = 4096; // JSON-encoded
+const MAX_VALUE_LENGTH = 512;
+const METADATA_KEY = /^[A-Za-z][A-Za-z0-9_.-]{0,63}$/;
+
+const MAX_TAGS = 20;
+const TAG = /^[A-Za-z0-9][A-Za-z0-9_.:-]{0,63}$/;
+
+const MAX_EXTERNAL_ID_LENGTH = 255;
+
+function invalid(message: string, context?: Record<string, unknown>): VoicenoteError {
+  return new VoicenoteError(ErrorCode.VALIDATION_ERROR, message, undefined, context);
+}
+
+/**
+ * Check metadata, tags and external_id, returning only the fields that are set
+ * (tags de-duplicated). Throws a VALIDATION_ERROR VoicenoteError.
+ */
+export function validateUploadMetadata(input: UploadMetadata): UploadMetadata {
+  const result: UploadMetadata = {};
+
+  if (input.metadata !== undefined) {
+    const metadata = input.metadata;
+    if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      throw invalid('metadata must be a plain object');
+    }
+
+    const keys = Object.keys(metadata);
+    if (keys.length > MAX_METADATA_KEYS) {
+      throw invalid(`metadata has ${keys.length} keys; at most ${MAX_METADATA_KEYS} are allowed`);
+    }
+    for (const key of keys) {
+      if (!METADATA_KEY.test(key)) {
+        throw invalid(`Invalid metadata key "${key}": use letters, digits, '_', '.' or '-', starting with a letter (max 64)`, { key });
+      }
+      const value = metadata[key];
+      if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+        throw invalid(`metadata.${key} must be a string, number, boolean or null`, { key });
+      }
+      if (typeof value === 'number' && !Number.isFinite(value)) {
+        throw invalid(`metadata.${key} must be a finite number`, { key });
+      }
+      if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+        throw invalid(`metadata.${key} is longer than ${MAX_VALUE_LENGTH} characters`, { key });
+      }
+    }
+
+    const bytes = new Blob([JSON.stringify(metadata)]).size;
+    if (bytes > MAX_METADATA_BYTES) {
+      throw invalid(`metadata is ${bytes} bytes as JSON; at most ${MAX_METADATA_BYTES} are allowed`, { bytes });
+    }
+    result.metadata = { ...metadata };
+  }
+
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags)) throw invalid('tags must be an array of strings');
+    const tags = [...new Set(input.tags)];
+    if (tags.length > MAX_TAGS) {
+      throw invalid(`${tags.length} tags given; at most ${MAX_TAGS} are allowed`);
+    }
+    for (const tag of tags) {
+      if (typeof tag !== 'string' || !TAG.test(tag)) {
+        throw invalid(`Invalid tag "${String(tag)}": use letters, digits, '_', '.', ':' or '-' (max 64)`, { tag });
+      }
+    }
+    result.tags = tags;
+  }
+
+  if (input.external_id !== undefined) {
+    const externalId = input.external_id;
+    if (typeof externalId !== 'string' || externalId.trim() === '') {
+      throw invalid('external_id must be a non-empty string');
+    }
+    if (externalId.length > MAX_EXTERNAL_ID_LENGTH) {
+      throw invalid(`external_id is longer than ${MAX_EXTERNAL_ID_LENGTH} characters`);
+    }
+    result.external_id = externalId;
+  }
+
+  return result;
+}
@@ -0,0 +1,290 @@
+/**
+ * VocaFuse Upload Queue
+ *
+ * Recordings whose upload failed (typically because the device is offline)
+ * are kept in IndexedDB and retried with backoff, on the `online` event and
+ * on a timer, until they go through or run out of attempts.
+ */
+
+import { HttpClient, type RetryOptions } from './client.js';
+import { TokenManager } from './token.js';
+import { VocaFuseUploader, type MultipartOptions, type UploadFields, type UploadResult } from './upload.js';
+import { ErrorCode, UploadCancelledError, UploadError, VocaFuseError, VoicenoteError, wrapUnknownError } from './errors.js';
+import { TypedEmitter, type Listener } from './emitter.js';
+import { createRecordId, openDatabase, requestToPromise, transactionDone } from './idb.js';
+import type { VoicenoteResult } from './recorder.js';
+
+export type QueuedUploadStatus = 'pending' | 'uploading' | 'failed';
+
+export interface QueuedUpload extends UploadFields {
+  id: string;
+  status: QueuedUploadStatus; // 'failed' = out of automatic attempts, retry(id) still works
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms of the next automatic attempt
+  lastError?: string;
+  voicenote: VoicenoteResult;
+}
+
+export interface UploadQueueOptions {
+  retry?: Partial<RetryOptions>; // automatic attempts and backoff between them
+  pollInterval?: number; // ms between checks for due uploads (default: 30000)
+  multipart?: MultipartOptions; // part concurrency and retries within one attempt (default: the SDK's multipart option)
+}
+
+export interface UploadQueueEvents {
+  queued: [upload: QueuedUpload];
+  uploading: [upload: QueuedUpload];
+  uploaded: [upload: QueuedUpload, result: UploadResult];
+  failed: [upload: QueuedUpload, error: VocaFuseError]; // upload.status says whether it will be retried
+  removed: [id: string];
+}
+
+const DB_NAME = 'vocafuse-uploads';
+const DB_VERSION = 1;
+const UPLOADS = 'uploads';
+
+export class UploadQueue {
+  private readonly uploader: VocaFuseUploader;
+  private readonly retryOptions: RetryOptions;
+  private readonly pollInterval: number;
+  private readonly emitter = new TypedEmitter<UploadQueueEvents>();
+  private processing: Promise<void> | null = null;
+  private readonly inFlight = new Set<string>(); // ids being uploaded by this page
+  private timer: number | null = null;
+  private readonly handleOnline = () => {
+    this.process();
+  };
+
+  constructor(httpClient: HttpClient, tokenManager: TokenManager, options: UploadQueueOptions = {}) {
+    this.uploader = new VocaFuseUploader(httpClient, tokenManager, { multipart: options.multipart });
+    this.retryOptions = {
+      maxRetries: 10,
+      baseDelay: 5000,
+      maxDelay: 5 * 60 * 1000,
+      backoffFactor: 2,
+      ...options.retry
+    };
+    this.pollInterval = options.pollInterval ?? 30000;
+  }
+
+  /**
+   * Check if IndexedDB is available for the queue
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Whether a failed upload is worth queueing: a retryable error, a network
+   * failure or the browser being offline. Anything else would fail again.
+   */
+  static isQueueable(error: unknown): boolean {
+    if (error instanceof UploadCancelledError) return false;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+    return error instanceof VocaFuseError &&
+      (error.retryable || error.code === ErrorCode.NETWORK_ERROR || error.code === ErrorCode.REQUEST_TIMEOUT);
+  }
+
+  on<K extends keyof UploadQueueEvents>(event: K, listener: Listener<UploadQueueEvents[K]>): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  once<K extends keyof UploadQueueEvents>(event: K, listener: Listener<UploadQueueEvents[K]>): () => void {
+    return this.emitter.once(event, listener);
+  }
+
+  off<K extends keyof UploadQueueEvents>(event: K, listener: Listener<UploadQueueEvents[K]>): void {
+    this.emitter.off(event, listener);
+  }
+
+  /**
+   * Begin retrying in the background: on the `online` event and every pollInterval
+   */
+  start(): void {
+    if (this.timer !== null) return;
+    window.addEventListener('online', this.handleOnline);
+    this.timer = window.setInterval(() => this.process(), this.pollInterval);
+    this.process();
+  }
+
+  stop(): void {
+    if (this.timer === null) return;
+    window.removeEventListener('online', this.handleOnline);
+    window.clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Store a recording for a later upload attempt
+   */
+  async enqueue(voicenote: VoicenoteResult, error?: unknown, fields: UploadFields = {}): Promise<QueuedUpload> {
+    const now = Date.now();
+    const upload: QueuedUpload = {
+      ...fields,
+      id: createRecordId(),
+      status: 'pending',
+      createdAt: now,
+      attempts: error ? 1 : 0,
+      nextAttemptAt: error ? now + this.retryDelay(1) : now,
+      lastError: error ? wrapUnknownError(error).message : undefined,
+      // The journal id belongs to the recorder that produced it
+      voicenote: { ...voicenote, persistenceId: undefined }
+    };
+    await this.put(upload);
+    this.emitter.emit('queued', upload);
+    return upload;
+  }
+
+  /**
+   * Queued uploads, oldest first
+   */
+  async list(): Promise<QueuedUpload[]> {
+    const db = await this.open();
+    const uploads = await requestToPromise(
+      db.transaction(UPLOADS, 'readonly').objectStore(UPLOADS).getAll() as IDBRequest<QueuedUpload[]>
+    );
+    return uploads.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Upload one entry now, ignoring its backoff and remaining attempts
+   */
+  async retry(id: string): Promise<UploadResult> {
+    const upload = await this.get(id);
+    if (!upload) {
+      throw new UploadError(`No queued upload with id ${id}`, undefined, false, { queuedUploadId: id });
+    }
+    if (this.inFlight.has(id)) {
+      throw new UploadError('Upload is already in progress', undefined, false, { queuedUploadId: id });
+    }
+    return this.attempt(upload, true);
+  }
+
+  /**
+   * Drop an entry without uploading it
+   */
+  async remove(id: string): Promise<void> {
+    await this.delete(id);
+    this.emitter.emit('removed', id);
+  }
+
+  /**
+   * Attempt every upload that is due. Runs one at a time; concurrent calls share the run.
+   */
+  process(): Promise<void> {
+    if (!this.processing) {
+      this.processing = this.processDue().finally(() => {
+        this.processing = null;
+      });
+    }
+    return this.processing;
+  }
+
+  private async processDue(): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    const due = (await this.list().catch(() => [])).filter(upload => this.isDue(upload));
+
+    for (const { id } of due) {
+      // retry() may have taken the entry, or finished it, since the list was read
+      const upload = await this.get(id).catch(() => undefined);
+      if (!upload || !this.isDue(upload)) continue;
+      try {
+        await this.attempt(upload, false);
+      } catch (_error) {
+        // Recorded on the entry and reported through 'failed'
+        if (navigator.onLine === false) return;
+      }
+    }
+  }
+
+  private isDue(upload: QueuedUpload): boolean {
+    if (this.inFlight.has(upload.id)) return false;
+    // 'uploading' entries nobody here is working on were cut off by a reload
+    return (upload.status === 'pending' || upload.status === 'uploading') && upload.nextAttemptAt <= Date.now();
+  }
+
+  private async attempt(upload: QueuedUpload, manual: boolean): Promise<UploadResult> {
+    const attempts = upload.attempts + 1;
+    const uploading: QueuedUpload = { ...upload, status: 'uploading', attempts };
+    this.inFlight.add(upload.id);
+
+    let result: UploadResult;
+    try {
+      await this.put(uploading);
+      this.emitter.emit('uploading', uploading);
+      result = await this.uploader.upload(upload.voicenote, {
+        metadata: upload.metadata,
+        tags: upload.tags,
+        external_id: upload.external_id,
+        processing: upload.processing
+      });
+    } catch (error) {
+      this.inFlight.delete(upload.id);
+      const uploadError = wrapUnknownError(error, { operation: 'upload queued voicenote', queuedUploadId: upload.id });
+      // Manual retries don't use up automatic attempts
+      const exhausted = !manual && attempts >= this.retryOptions.maxRetries;
+      const failed: QueuedUpload = {
+        ...uploading,
+        status: exhausted ? 'failed' : 'pending',
+        attempts: manual ? upload.attempts : attempts,
+        nextAttemptAt: Date.now() + this.retryDelay(attempts),
+        lastError: uploadError.message
+      };
+      await this.put(failed).catch(() => {});
+      this.emitter.emit('failed', failed, uploadError);
+      throw uploadError;
+    }
+
+    this.inFlight.delete(upload.id);
+    await this.delete(upload.id).catch(() => {});
+    this.emitter.emit('uploaded', uploading, result);
+    return result;
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(
+      this.retryOptions.baseDelay * Math.pow(this.retryOptions.backoffFactor, attempt - 1),
+      this.retryOptions.maxDelay
+    );
+  }
+
+  private async get(id: string): Promise<QueuedUpload | undefined> {
+    const db = await this.open();
+    return requestToPromise(
+      db.transaction(UPLOADS, 'readonly').objectStore(UPLOADS).get(id) as IDBRequest<QueuedUpload | undefined>
+    );
+  }
+
+  private async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(UPLOADS, 'readwrite');
+    transaction.objectStore(UPLOADS).delete(id);
+    await transactionDone(transaction);
+  }
+
+  private async put(upload: QueuedUpload): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(UPLOADS, 'readwrite');
+    transaction.objectStore(UPLOADS).put(upload);
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      throw new VoicenoteError(
+        ErrorCode.STORAGE_FAILED,
+        'Failed to store queued upload in IndexedDB',
+        error instanceof Error ? error : undefined,
+        { queuedUploadId: upload.id }
+      );
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(UPLOADS)) {
+        db.createObjectStore(UPLOADS, { keyPath: 'id' });
+      }
+    });
+  }
+}
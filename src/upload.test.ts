@@ -0,0 +1,227 @@
+// @vitest-environment jsdom
+import { Buffer } from 'node:buffer';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { HttpClient } from './client.js';
+import type { TokenManager } from './token.js';
+import { VocaFuseUploader, type UploadPhase } from './upload.js';
+import type { VoicenoteResult } from './recorder.js';
+
+const MB = 1024 * 1024;
+
+/**
+ * Local stand-in for the VocaFuse API and the storage behind its presigned URLs
+ */
+class FakeStorage {
+  base = '';
+  requests: string[] = [];
+  completed: unknown[] = [];
+  aborted: unknown[] = [];
+  stored = new Map<number, number>(); // part_number -> bytes received
+  exposeEtag = true;
+  partFailures = new Map<number, number[]>(); // part_number -> statuses to answer, in order
+  private nextVoicenote = 1;
+
+  reset(): void {
+    this.requests = [];
+    this.completed = [];
+    this.aborted = [];
+    this.stored.clear();
+    this.exposeEtag = true;
+    this.partFailures.clear();
+  }
+
+  async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'PUT, POST');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (this.exposeEtag) response.setHeader('Access-Control-Expose-Headers', 'ETag');
+    if (request.method === 'OPTIONS') {
+      response.end();
+      return;
+    }
+
+    const body = await readBody(request);
+    const url = request.url ?? '';
+    this.requests.push(`${request.method} ${url}`);
+
+    const storage = url.match(/^\/storage\/(\d+)$/);
+    if (storage && request.method === 'PUT') {
+      const partNumber = Number(storage[1]);
+      const status = this.partFailures.get(partNumber)?.shift();
+      if (status) {
+        response.statusCode = status;
+        response.end();
+        return;
+      }
+      this.stored.set(partNumber, body.length);
+      response.setHeader('ETag', `"etag-${partNumber}"`);
+      response.end();
+      return;
+    }
+
+    const json = body.length > 0 ? JSON.parse(body.toString()) : {};
+    if (url === '/upload') {
+      const voicenoteId = `vn_${this.nextVoicenote++}`;
+      const half = Math.ceil(json.file_size / 2);
+      this.reply(response, {
+        voicenote_id: voicenoteId,
+        upload_type: 'multipart',
+        s3_key: `voicenotes/${voicenoteId}`,
+        expires_in: 3600,
+        processing_strategy: 'server',
+        client_processed: false,
+        message: 'ok',
+        upload_info: {
+          upload_id: `up_${voicenoteId}`,
+          parts: [
+            { part_number: 1, presigned_url: this.partUrl(1), start_byte: 0, end_byte: half - 1, content_length: half },
+            { part_number: 2, presigned_url: this.partUrl(2), start_byte: half, end_byte: json.file_size - 1, content_length: json.file_size - half }
+          ]
+        }
+      });
+    } else if (url.endsWith('/parts')) {
+      this.reply(response, {
+        upload_id: json.upload_id,
+        parts: json.part_numbers.map((part_number: number) => ({ part_number, presigned_url: this.partUrl(part_number) }))
+      });
+    } else if (url.endsWith('/complete')) {
+      this.completed.push(json);
+      this.reply(response, {});
+    } else if (url.endsWith('/abort')) {
+      this.aborted.push(json);
+      this.reply(response, {});
+    } else {
+      response.statusCode = 404;
+      response.end();
+    }
+  }
+
+  private partUrl(partNumber: number): string {
+    return `${this.base}/storage/${partNumber}`;
+  }
+
+  private reply(response: ServerResponse, data: unknown): void {
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify({ object: 'response', data, request_id: 'test' }));
+  }
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+function recording(size: number): VoicenoteResult {
+  const bytes = new Uint8Array(size);
+  bytes[0] = size % 251; // recordings of different sizes get different fingerprints
+  return { blob: new Blob([bytes], { type: 'audio/webm' }), mimeType: 'audio/webm', duration: 60, size, format: 'webm' };
+}
+
+describe('VocaFuseUploader multipart lifecycle', () => {
+  const storage = new FakeStorage();
+  let server: Server;
+  let phases: UploadPhase[];
+
+  const createUploader = () => {
+    const httpClient = new HttpClient({
+      baseUrl: storage.base,
+      retries: { maxRetries: 1, baseDelay: 10, maxDelay: 10, backoffFactor: 1 }
+    });
+    const tokenManager = { getToken: async () => 'token' } as unknown as TokenManager;
+    return new VocaFuseUploader(httpClient, tokenManager, {
+      multipart: { concurrency: 1, retry: { maxRetries: 2, baseDelay: 10, maxDelay: 10 } },
+      onPhase: phase => phases.push(phase)
+    });
+  };
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      storage.handle(request, response).catch(() => {
+        response.statusCode = 500;
+        response.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    storage.base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    storage.reset();
+    phases = [];
+  });
+
+  it('collects part ETags and completes with the part list', async () => {
+    const voicenote = recording(6 * MB);
+    const result = await createUploader().upload(voicenote);
+
+    expect(result.upload_type).toBe('multipart');
+    expect(storage.stored.get(1)! + storage.stored.get(2)!).toBe(voicenote.size);
+    expect(storage.completed).toEqual([expect.objectContaining({
+      upload_id: `up_${result.voicenote_id}`,
+      parts: [{ part_number: 1, etag: '"etag-1"' }, { part_number: 2, etag: '"etag-2"' }],
+      file_size: voicenote.size
+    })]);
+    expect(storage.aborted).toEqual([]);
+    expect(phases).toEqual(['requesting', 'uploading', 'completing']);
+  });
+
+  it('retries a part that failed with a retryable status', async () => {
+    storage.partFailures.set(2, [503]);
+    await createUploader().upload(recording(6 * MB + 1));
+
+    expect(storage.requests.filter(request => request === 'PUT /storage/2')).toHaveLength(2);
+    expect(storage.completed).toHaveLength(1);
+    expect(storage.aborted).toEqual([]);
+  });
+
+  it('aborts when a part is rejected and starts over on the next attempt', async () => {
+    storage.partFailures.set(2, [400]);
+    const voicenote = recording(6 * MB + 2);
+    const uploader = createUploader();
+
+    await expect(uploader.upload(voicenote)).rejects.toMatchObject({ retryable: false });
+    expect(storage.requests.filter(request => request === 'PUT /storage/2')).toHaveLength(1);
+    expect(storage.aborted).toEqual([{ upload_id: expect.stringMatching(/^up_vn_/) }]);
+    expect(storage.completed).toEqual([]);
+
+    storage.reset();
+    await uploader.upload(voicenote);
+    expect(storage.requests[0]).toBe('POST /upload');
+    expect(storage.requests.some(request => request.endsWith('/parts'))).toBe(false);
+  });
+
+  it('aborts when storage does not expose the ETag', async () => {
+    storage.exposeEtag = false;
+
+    await expect(createUploader().upload(recording(6 * MB + 3))).rejects.toThrow(/no ETag/);
+    expect(storage.aborted).toHaveLength(1);
+    expect(storage.completed).toEqual([]);
+  });
+
+  it('continues with the missing parts after a failure that can be retried', async () => {
+    storage.partFailures.set(2, [503, 503, 503]);
+    const voicenote = recording(6 * MB + 4);
+    const uploader = createUploader();
+
+    await expect(uploader.upload(voicenote)).rejects.toMatchObject({ retryable: true });
+    expect(storage.aborted).toEqual([]);
+
+    storage.reset();
+    await uploader.upload(voicenote);
+    expect(storage.requests).toEqual([
+      expect.stringMatching(/^POST \/upload\/vn_\d+\/parts$/),
+      'PUT /storage/2',
+      expect.stringMatching(/^POST \/upload\/vn_\d+\/complete$/)
+    ]);
+  });
+});
@@ -1,26 +1,49 @@
 /**
  * Upload functionality for VocaFuse SDK
  */
-import { HttpClient } from './client.js';
+import { HttpClient, type RequestOptions, type RetryOptions } from './client.js';
 import { TokenManager } from './token.js';
-import { UploadError, NetworkError, wrapUnknownError } from './errors.js';
+import { UploadError, UploadCancelledError, NetworkError, VocaFuseError, wrapUnknownError } from './errors.js';
+import {
+  MultipartStateStore,
+  fingerprintBlob,
+  type MultipartPartRange,
+  type MultipartUploadState
+} from './multipart-state.js';
+import { validateUploadMetadata, type UploadMetadata } from './upload-metadata.js';
+import {
+  toProcessingRequest,
+  validateProcessingOptions,
+  type ProcessingOptions,
+  type ProcessingRequest
+} from './processing-options.js';
 import type { VoicenoteResult } from './recorder.js';
 
 export interface UploadConfig {
   onProgress?: (progress: number) => void; // deprecated alias
   onUploadProgress?: (progress: number) => void;
+  onUploadProgressDetailed?: (progress: UploadProgressDetail) => void; // bytes, phase, speed and ETA
   onComplete?: (result: UploadResult) => void;
   onError?: (error: UploadError) => void;
+  onPhase?: (phase: UploadPhase) => void; // requesting -> uploading -> completing
   maxRetries?: number;
   timeout?: number;
+  multipart?: MultipartOptions;
 }
 
-export interface UploadRequest {
+export interface MultipartOptions {
+  concurrency?: number; // parts uploaded at once (default: 3)
+  retry?: Partial<RetryOptions>; // per part (default: maxRetries retries, 1s doubling up to 30s)
+}
+
+export interface UploadRequest extends UploadMetadata {
   file_name: string;
   file_size: number;
   audio_format: string;
   duration_seconds: number;
   use_multipart?: boolean;
+  streaming?: boolean; // Size and duration are unknown until the multipart upload is completed
+  processing_options?: ProcessingRequest;
   sdk_metadata: {
     duration_seconds: number;
     sample_rate?: number;
@@ -52,7 +75,33 @@ export interface PresignedUrlResponse {
   };
 }
 
-export interface UploadResult {
+export interface PartUrlsResponse {
+  upload_id: string;
+  parts: Array<{
+    part_number: number;
+    presigned_url: string;
+  }>;
+}
+
+/**
+ * A started multipart upload, as far as part URLs and abort are concerned
+ */
+export type MultipartTarget = Pick<MultipartUploadState, 'voicenote_id' | 'upload_id'>;
+
+export interface CompletedPart {
+  part_number: number;
+  etag: string;
+}
+
+export interface CompleteMultipartRequest {
+  upload_id: string;
+  parts: CompletedPart[];
+  file_size?: number;
+  duration_seconds?: number;
+  sdk_metadata?: UploadRequest['sdk_metadata'];
+}
+
+export interface UploadResult extends UploadMetadata {
   voicenote_id: string;
   upload_type: 'single' | 'multipart';
   processing_strategy: string;
@@ -63,17 +112,199 @@ export interface UploadResult {
   audio_format: string;
 }
 
+export type UploadPhase = 'requesting' | 'uploading' | 'completing';
+
 export interface UploadProgress {
   loaded: number;
   total: number;
   percentage: number;
-  phase: 'requesting' | 'uploading' | 'completing';
+  phase: UploadPhase;
+}
+
+export interface UploadProgressDetail extends UploadProgress {
+  loaded: number; // bytes of the recording stored so far, across all parts
+  total: number; // bytes of the recording
+  percentage: number; // never decreases during one upload, also not on part retries
+  bytesPerSecond: number; // smoothed throughput, 0 until measured
+  estimatedSecondsRemaining: number | null; // null until throughput is known
+}
+
+export interface PresignedPutOptions {
+  timeout?: number;
+  label?: string; // Used in error messages, e.g. 'part 3'
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal; // Aborts the request and rejects with UploadCancelledError
+}
+
+/**
+ * Everything sent with the /upload request besides the audio facts
+ */
+export interface UploadFields extends UploadMetadata {
+  processing?: ProcessingOptions; // transcription and redaction settings
+}
+
+export interface UploadOptions extends UploadFields {
+  signal?: AbortSignal; // Cancels the whole upload, including a started multipart upload
+}
+
+/**
+ * Validate metadata and processing options, keeping only the fields that are set.
+ * Throws a VALIDATION_ERROR VoicenoteError.
+ */
+export function validateUploadFields(fields: UploadFields): UploadFields {
+  const result: UploadFields = validateUploadMetadata(fields);
+  if (fields.processing !== undefined) result.processing = validateProcessingOptions(fields.processing);
+  return result;
+}
+
+/**
+ * The /upload request body for the given fields
+ */
+export function uploadRequestFields({ processing, ...metadata }: UploadFields): UploadMetadata & Pick<UploadRequest, 'processing_options'> {
+  return processing ? { ...metadata, processing_options: toProcessingRequest(processing) } : metadata;
+}
+
+// Storage answers 403 once a presigned URL has expired
+const EXPIRED_URL_STATUS = 403;
+
+/**
+ * Whether a storage PUT that failed with this status can succeed on a later attempt
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === EXPIRED_URL_STATUS || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * PUT a blob to a presigned storage URL, resolving to the ETag when the
+ * storage exposes it (needed to complete multipart uploads)
+ */
+export function putToPresignedUrl(url: string, blob: Blob, options: PresignedPutOptions = {}): Promise<string | null> {
+  const label = options.label ? `${options.label} upload` : 'Upload';
+  const { signal } = options;
+  if (signal?.aborted) return Promise.reject(new UploadCancelledError());
+
+  const xhr = new XMLHttpRequest();
+  const abort = () => xhr.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  return new Promise<string | null>((resolve, reject) => {
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable) options.onProgress?.(event.loaded, event.total);
+    });
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve(xhr.getResponseHeader('ETag'));
+      else {
+        reject(new UploadError(
+          `${label} failed with status ${xhr.status}: ${xhr.statusText}`,
+          undefined,
+          isRetryableStatus(xhr.status),
+          { status: xhr.status }
+        ));
+      }
+    });
+    xhr.addEventListener('error', () => reject(new NetworkError(`Network error during ${label.toLowerCase()}`)));
+    xhr.addEventListener('timeout', () => reject(new NetworkError(`${label} timed out`)));
+    xhr.addEventListener('abort', () => reject(new UploadCancelledError()));
+    xhr.timeout = options.timeout || 60000;
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', blob.type);
+    xhr.send(blob);
+  }).finally(() => signal?.removeEventListener('abort', abort));
+}
+
+/**
+ * A signal that aborts when any of the given signals does
+ */
+function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+  return controller.signal;
+}
+
+// Shared so a retry from another uploader (queue, recovery) finds the same state
+const multipartStates = new MultipartStateStore();
+
+/**
+ * Smoothed upload speed from successive byte counts
+ */
+class ThroughputMeter {
+  private lastLoaded = 0;
+  private lastTime = 0;
+  private rate = 0;
+
+  reset(loaded: number): void {
+    this.lastLoaded = loaded;
+    this.lastTime = Date.now();
+    this.rate = 0;
+  }
+
+  /**
+   * Bytes per second, updated at most every 250ms
+   */
+  update(loaded: number): number {
+    const now = Date.now();
+    if (loaded < this.lastLoaded) {
+      // A retried or paused part starts over; that is not negative speed
+      this.lastLoaded = loaded;
+      this.lastTime = now;
+      return this.rate;
+    }
+
+    const elapsed = (now - this.lastTime) / 1000;
+    if (elapsed < 0.25) return this.rate;
+
+    const sample = (loaded - this.lastLoaded) / elapsed;
+    this.rate = this.rate === 0 ? sample : 0.3 * sample + 0.7 * this.rate;
+    this.lastLoaded = loaded;
+    this.lastTime = now;
+    return this.rate;
+  }
+}
+
+function responseStatus(error: unknown): number | undefined {
+  const status = error instanceof VocaFuseError ? error.context?.status : undefined;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether a failed part PUT is worth another attempt
+ */
+function isRetryablePartError(error: unknown): boolean {
+  if (error instanceof UploadCancelledError) return false;
+  if (error instanceof NetworkError) return error.retryable;
+  const status = responseStatus(error);
+  return status !== undefined && isRetryableStatus(status);
+}
+
+/**
+ * Whether a failed multipart upload can continue on a later attempt. HTTP
+ * failures are judged by their status; the rest (network, token) by their
+ * retryable flag.
+ */
+function isResumableMultipartError(error: unknown): boolean {
+  if (error instanceof NetworkError || responseStatus(error) !== undefined) return isRetryablePartError(error);
+  return error instanceof VocaFuseError && error.retryable;
 }
 
 export class VocaFuseUploader {
   private readonly httpClient: HttpClient;
   private readonly tokenManager: TokenManager;
   private readonly config: UploadConfig;
+  private paused = false;
+  private pauseController = new AbortController(); // Aborted to interrupt in-flight PUTs on pause()
+  private resumeWaiters: Array<() => void> = [];
+  private phase: UploadPhase | null = null;
+  private percentage = 0; // highest percentage reported for the running upload
+  private readonly throughput = new ThroughputMeter();
+  private readonly concurrency: number;
+  private readonly partRetry: RetryOptions;
 
   constructor(httpClient: HttpClient, tokenManager: TokenManager, config: UploadConfig = {}) {
     this.httpClient = httpClient;
@@ -83,23 +314,85 @@ export class VocaFuseUploader {
       timeout: 60000,
       ...config
     };
+    this.concurrency = Math.max(1, Math.floor(config.multipart?.concurrency ?? 3));
+    this.partRetry = {
+      maxRetries: this.config.maxRetries!,
+      baseDelay: 1000,
+      maxDelay: 30000,
+      backoffFactor: 2,
+      ...config.multipart?.retry
+    };
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
   }
 
-  async upload(voicenote: VoicenoteResult): Promise<UploadResult> {
+  /**
+   * Interrupt the running upload. Finished multipart parts are kept; the part
+   * (or single file) in flight is sent again on resume().
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.pauseController.abort();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.pauseController = new AbortController();
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  /**
+   * Upload a recording. Multipart uploads interrupted by a failure, a network
+   * loss or a reload continue with the missing parts the next time the same
+   * recording is uploaded.
+   */
+  async upload(voicenote: VoicenoteResult, options: UploadOptions = {}): Promise<UploadResult> {
+    const { signal } = options;
+    const { processing, ...metadata } = validateUploadFields(options);
+    let multipart: MultipartUploadState | null = null;
+    this.resume();
+    this.phase = null;
+    this.percentage = 0;
+    const size = voicenote.size;
     try {
-      this.notifyProgress({ loaded: 0, total: 100, percentage: 0, phase: 'requesting' });
-      const uploadRequest = this.createUploadRequest(voicenote);
-      const presignedResponse = await this.requestPresignedUrl(uploadRequest);
+      if (signal?.aborted) throw new UploadCancelledError();
+      this.notifyProgress({ loaded: 0, total: size, percentage: 0, phase: 'requesting' });
+      const uploadRequest = this.createUploadRequest(voicenote, { ...metadata, processing });
 
-      this.notifyProgress({ loaded: 0, total: 100, percentage: 10, phase: 'uploading' });
+      let presignedResponse: PresignedUrlResponse;
+      let partUrls = new Map<number, string>();
+      const resumed = uploadRequest.use_multipart ? await this.resumeMultipart(voicenote.blob, signal) : null;
+      if (resumed) {
+        ({ state: multipart, partUrls } = resumed);
+        presignedResponse = this.responseFromState(multipart);
+      } else {
+        presignedResponse = await this.requestPresignedUrl(uploadRequest, signal);
+        if (presignedResponse.upload_type === 'multipart') {
+          if (!presignedResponse.upload_info) throw new UploadError('No multipart upload info provided');
+          multipart = await this.createMultipartState(voicenote.blob, presignedResponse);
+          partUrls = new Map(presignedResponse.upload_info.parts.map(part => [part.part_number, part.presigned_url]));
+        }
+      }
+
+      this.notifyProgress({ loaded: 0, total: size, percentage: 10, phase: 'uploading' });
 
-      if (presignedResponse.upload_type === 'single') {
-        await this.uploadSingle(voicenote.blob, presignedResponse);
+      if (multipart) {
+        this.abortExpiredMultipart();
+        await this.uploadMultipart(voicenote.blob, multipart, partUrls, signal);
+        this.notifyProgress({ loaded: size, total: size, percentage: 95, phase: 'completing' });
+        await this.completeMultipart(multipart, uploadRequest, signal);
+        await multipartStates.delete(multipart.upload_id);
       } else {
-        await this.uploadMultipart(voicenote.blob, presignedResponse);
+        await this.uploadSingle(voicenote.blob, presignedResponse, signal);
       }
 
-      this.notifyProgress({ loaded: 100, total: 100, percentage: 100, phase: 'completing' });
+      this.notifyProgress({ loaded: size, total: size, percentage: 100, phase: 'completing' });
 
       const result: UploadResult = {
         voicenote_id: presignedResponse.voicenote_id,
@@ -109,19 +402,36 @@ export class VocaFuseUploader {
         s3_key: presignedResponse.s3_key,
         file_size: voicenote.size,
         duration_seconds: voicenote.duration,
-        audio_format: voicenote.format
+        audio_format: voicenote.format,
+        ...metadata
       };
 
       if (this.config.onComplete) this.config.onComplete(result);
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        if (multipart) {
+          await this.abortMultipart(multipart);
+          await multipartStates.delete(multipart.upload_id);
+        }
+        throw new UploadCancelledError({ voicenote_id: multipart?.voicenote_id });
+      }
+      if (multipart && !isResumableMultipartError(error)) {
+        // Resuming would fail the same way: release the parts stored so far
+        await this.abortMultipart(multipart);
+        await multipartStates.delete(multipart.upload_id);
+      }
+      // Otherwise the multipart state stays behind for the next attempt
       const uploadError = error instanceof UploadError ? error : (wrapUnknownError(error, { operation: 'upload voicenote' }) as UploadError);
       if (this.config.onError) this.config.onError(uploadError);
       throw uploadError;
+    } finally {
+      // A settled upload is not paused, whether it finished, failed or was cancelled
+      this.resume();
     }
   }
 
-  private createUploadRequest(voicenote: VoicenoteResult): UploadRequest {
+  private createUploadRequest(voicenote: VoicenoteResult, fields: UploadFields): UploadRequest {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const extension = this.getFileExtension(voicenote.format);
     const fileName = `voicenote-${timestamp}.${extension}`;
@@ -135,93 +445,350 @@ export class VocaFuseUploader {
         duration_seconds: Math.round(voicenote.duration * 100) / 100,
         codec: voicenote.format,
         file_size_bytes: voicenote.size,
-        sample_rate: 44100,
-        channels: 1,
-        bit_rate: 128000
-      }
+        sample_rate: voicenote.sampleRate,
+        channels: voicenote.channels,
+        bit_rate: voicenote.bitRate
+      },
+      ...uploadRequestFields(fields)
     };
   }
 
-  private async requestPresignedUrl(request: UploadRequest): Promise<PresignedUrlResponse> {
+  private async requestPresignedUrl(request: UploadRequest, signal?: AbortSignal): Promise<PresignedUrlResponse> {
     try {
-      const token = await this.tokenManager.getToken();
-      const response = await this.httpClient.request<PresignedUrlResponse>('/upload', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: request
-      });
-      return response.data;
+      return await this.post<PresignedUrlResponse>('/upload', request, { signal });
     } catch (error) {
-      throw new UploadError('Failed to get presigned upload URL', error instanceof Error ? error : new Error(String(error)));
+      const cause = wrapUnknownError(error);
+      throw new UploadError('Failed to get presigned upload URL', cause, cause.retryable, { status: cause.context.status });
     }
   }
 
-  private async uploadSingle(blob: Blob, response: PresignedUrlResponse): Promise<void> {
-    if (!response.presigned_url) throw new UploadError('No presigned URL provided for single upload');
-    const presignedUrl = response.presigned_url!;
-    const xhr = new XMLHttpRequest();
-    return new Promise((resolve, reject) => {
-      xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable) {
-          const percentage = 10 + (event.loaded / event.total) * 80;
-          this.notifyProgress({ loaded: event.loaded, total: event.total, percentage, phase: 'uploading' });
-        }
-      });
-      xhr.addEventListener('load', () => {
-        if (xhr.status >= 200 && xhr.status < 300) resolve();
-        else reject(new UploadError(`Upload failed with status ${xhr.status}: ${xhr.statusText}`));
-      });
-      xhr.addEventListener('error', () => reject(new NetworkError('Network error during upload')));
-      xhr.addEventListener('timeout', () => reject(new NetworkError('Upload timed out')));
-      xhr.timeout = this.config.timeout || 60000;
-      xhr.open('PUT', presignedUrl);
-      xhr.setRequestHeader('Content-Type', blob.type);
-      xhr.send(blob);
-    });
+  private async createMultipartState(blob: Blob, response: PresignedUrlResponse): Promise<MultipartUploadState> {
+    const state: MultipartUploadState = {
+      upload_id: response.upload_info!.upload_id,
+      fingerprint: await fingerprintBlob(blob),
+      voicenote_id: response.voicenote_id,
+      s3_key: response.s3_key,
+      processing_strategy: response.processing_strategy,
+      client_processed: response.client_processed,
+      parts: response.upload_info!.parts.map(({ part_number, start_byte, end_byte }) => ({ part_number, start_byte, end_byte })),
+      etags: {},
+      createdAt: Date.now()
+    };
+    await multipartStates.save(state);
+    return state;
+  }
+
+  /**
+   * Pick up an earlier multipart upload of this recording, with fresh
+   * presigned URLs for the parts that are still missing
+   */
+  private async resumeMultipart(
+    blob: Blob,
+    signal?: AbortSignal
+  ): Promise<{ state: MultipartUploadState; partUrls: Map<number, string> } | null> {
+    const state = await multipartStates.find(await fingerprintBlob(blob));
+    if (!state) return null;
+
+    const missing = state.parts.filter(part => !state.etags[part.part_number]).map(part => part.part_number);
+    if (missing.length === 0) return { state, partUrls: new Map() };
+
+    try {
+      return { state, partUrls: await this.requestPartUrls(state, missing, signal) };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Expired or aborted on the server: start a new upload
+      await multipartStates.delete(state.upload_id);
+      return null;
+    }
+  }
+
+  private responseFromState(state: MultipartUploadState): PresignedUrlResponse {
+    return {
+      voicenote_id: state.voicenote_id,
+      upload_type: 'multipart',
+      s3_key: state.s3_key,
+      expires_in: 0,
+      processing_strategy: state.processing_strategy,
+      client_processed: state.client_processed,
+      message: 'Resumed multipart upload'
+    };
   }
 
-  private async uploadMultipart(blob: Blob, response: PresignedUrlResponse): Promise<void> {
-    if (!response.upload_info) throw new UploadError('No multipart upload info provided');
-    const parts = response.upload_info.parts;
-    const uploadPromises = parts.map(async (part, index) => {
-      const start = part.start_byte;
-      const end = part.end_byte + 1;
-      const chunk = blob.slice(start, end);
-      await this.uploadPart(chunk, part.presigned_url, index, parts.length);
+  private async uploadSingle(blob: Blob, response: PresignedUrlResponse, signal?: AbortSignal): Promise<void> {
+    const url = response.presigned_url;
+    if (!url) throw new UploadError('No presigned URL provided for single upload');
+    await this.putPausable(url, blob, signal, {
+      onProgress: (loaded, total) => {
+        const percentage = 10 + (loaded / total) * 80;
+        this.notifyProgress({ loaded, total, percentage, phase: 'uploading' });
+      }
     });
-    await Promise.all(uploadPromises);
   }
 
-  private async uploadPart(chunk: Blob, presignedUrl: string, partIndex: number, totalParts: number): Promise<void> {
-    const xhr = new XMLHttpRequest();
-    return new Promise((resolve, reject) => {
-      xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable) {
-          const partProgress = event.loaded / event.total;
-          const overallProgress = ((partIndex + partProgress) / totalParts) * 80 + 10;
-          this.notifyProgress({ loaded: event.loaded, total: event.total, percentage: overallProgress, phase: 'uploading' });
+  /**
+   * Upload the missing parts, at most `concurrency` at a time. The first part
+   * that fails for good stops the others.
+   */
+  private async uploadMultipart(
+    blob: Blob,
+    state: MultipartUploadState,
+    partUrls: Map<number, string>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const total = blob.size;
+    const partSize = (part: MultipartPartRange) => part.end_byte + 1 - part.start_byte;
+    const completedBytes = state.parts
+      .filter(part => state.etags[part.part_number])
+      .reduce((sum, part) => sum + partSize(part), 0);
+    const inFlight = new Map<number, number>(); // part_number -> bytes sent
+    let doneBytes = completedBytes;
+
+    const report = () => {
+      const loaded = doneBytes + [...inFlight.values()].reduce((sum, bytes) => sum + bytes, 0);
+      this.notifyProgress({ loaded, total, percentage: 10 + (loaded / total) * 80, phase: 'uploading' });
+    };
+
+    // Parts stored by an earlier attempt count towards progress, not towards speed
+    this.throughput.reset(completedBytes);
+    report();
+
+    const pending = state.parts.filter(part => !state.etags[part.part_number]);
+    const failure = new AbortController();
+    const partSignal = anySignal([signal, failure.signal]);
+
+    const worker = async () => {
+      for (let part = pending.shift(); part && !partSignal.aborted; part = pending.shift()) {
+        const partNumber = part.part_number;
+        const chunk = blob.slice(part.start_byte, part.end_byte + 1);
+        const etag = await this.uploadPart(state, partNumber, chunk, partUrls, partSignal, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          report();
+        });
+
+        inFlight.delete(part.part_number);
+        doneBytes += partSize(part);
+        state.etags[part.part_number] = etag;
+        await multipartStates.save(state);
+        report();
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, pending.length) }, () => worker().catch((error) => {
+      failure.abort();
+      throw error;
+    }));
+    // Report the part that failed, not the cancellations it caused in the other workers
+    const results = await Promise.allSettled(workers);
+    const errors = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    if (errors.length > 0) {
+      throw errors.find(error => !(error instanceof UploadCancelledError)) ?? errors[0];
+    }
+  }
+
+  /**
+   * PUT one part, retrying with backoff and asking for a new URL when the old
+   * one expired. Also used by the progressive uploader.
+   * @internal
+   */
+  async uploadPart(
+    upload: MultipartTarget,
+    partNumber: number,
+    chunk: Blob,
+    partUrls: Map<number, string>,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+  ): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        let url = partUrls.get(partNumber);
+        if (!url) {
+          url = (await this.requestPartUrls(upload, [partNumber], signal)).get(partNumber);
+          if (!url) throw new UploadError(`No presigned URL for part ${partNumber}`, undefined, false);
+          partUrls.set(partNumber, url);
+        }
+
+        const etag = await this.putPausable(url, chunk, signal, {
+          label: `Part ${partNumber}`,
+          onProgress
+        });
+        if (!etag) {
+          throw new UploadError(
+            `Part ${partNumber} response has no ETag; expose it in the storage CORS configuration`,
+            undefined,
+            false
+          );
         }
+        return etag;
+      } catch (error) {
+        onProgress(0);
+        if (signal.aborted) throw new UploadCancelledError();
+        if (attempt > this.partRetry.maxRetries || !isRetryablePartError(error)) throw error;
+
+        if (responseStatus(error) === EXPIRED_URL_STATUS) partUrls.delete(partNumber);
+        await this.sleep(this.partRetryDelay(attempt), signal);
+      }
+    }
+  }
+
+  private partRetryDelay(attempt: number): number {
+    const delay = this.partRetry.baseDelay * Math.pow(this.partRetry.backoffFactor, attempt - 1);
+    const jitter = Math.random() * 0.1 * delay; // Add 10% jitter
+    return Math.min(delay + jitter, this.partRetry.maxDelay);
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new UploadCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Fresh presigned URLs for parts of a started multipart upload
+   */
+  private async requestPartUrls(
+    upload: MultipartTarget,
+    partNumbers: number[],
+    signal?: AbortSignal
+  ): Promise<Map<number, string>> {
+    const response = await this.post<PartUrlsResponse>(`/upload/${upload.voicenote_id}/parts`, {
+      upload_id: upload.upload_id,
+      part_numbers: partNumbers
+    }, { signal });
+    return new Map(response.parts.map(part => [part.part_number, part.presigned_url]));
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  private async completeMultipart(
+    state: MultipartUploadState,
+    request: UploadRequest,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const complete: CompleteMultipartRequest = {
+      upload_id: state.upload_id,
+      parts: state.parts.map(part => ({ part_number: part.part_number, etag: state.etags[part.part_number] })),
+      file_size: request.file_size,
+      duration_seconds: request.duration_seconds,
+      sdk_metadata: request.sdk_metadata
+    };
+    try {
+      await this.post(`/upload/${state.voicenote_id}/complete`, complete, { signal });
+    } catch (error) {
+      const cause = wrapUnknownError(error);
+      throw new UploadError('Failed to complete multipart upload', cause, cause.retryable, {
+        upload_id: state.upload_id,
+        status: cause.context.status
       });
-      xhr.addEventListener('load', () => {
-        if (xhr.status >= 200 && xhr.status < 300) resolve();
-        else reject(new UploadError(`Part ${partIndex + 1} upload failed with status ${xhr.status}: ${xhr.statusText}`));
+    }
+  }
+
+  /**
+   * Release multipart uploads that are too old to resume, in the background
+   */
+  private abortExpiredMultipart(): void {
+    multipartStates.takeExpired().then((expired) => {
+      expired.forEach(state => this.abortMultipart(state));
+    }, () => {});
+  }
+
+  /**
+   * PUT that survives pause(): an interrupted request waits for resume() and starts over
+   */
+  private async putPausable(
+    url: string,
+    blob: Blob,
+    signal: AbortSignal | undefined,
+    options: Pick<PresignedPutOptions, 'label' | 'onProgress'>
+  ): Promise<string | null> {
+    for (;;) {
+      await this.waitWhilePaused(signal);
+      const pauseSignal = this.pauseController.signal;
+      try {
+        return await putToPresignedUrl(url, blob, {
+          ...options,
+          timeout: this.config.timeout,
+          signal: anySignal([signal, pauseSignal])
+        });
+      } catch (error) {
+        if (signal?.aborted || !pauseSignal.aborted) throw error;
+        options.onProgress?.(0, blob.size);
+      }
+    }
+  }
+
+  private waitWhilePaused(signal?: AbortSignal): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new UploadCancelledError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.resumeWaiters.push(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
       });
-      xhr.addEventListener('error', () => reject(new NetworkError(`Network error during part ${partIndex + 1} upload`)));
-      xhr.addEventListener('timeout', () => reject(new NetworkError(`Part ${partIndex + 1} upload timed out`)));
-      xhr.timeout = this.config.timeout || 60000;
-      xhr.open('PUT', presignedUrl);
-      xhr.setRequestHeader('Content-Type', chunk.type);
-      xhr.send(chunk);
     });
   }
 
+  /**
+   * Tell the API to discard a started multipart upload. Best effort: the API
+   * also expires incomplete uploads on its own.
+   * @internal
+   */
+  async abortMultipart(upload: MultipartTarget): Promise<void> {
+    try {
+      await this.post(`/upload/${upload.voicenote_id}/abort`, { upload_id: upload.upload_id }, { retries: 0 });
+    } catch (_error) {
+      // Ignored, see above
+    }
+  }
+
+  /** @internal */
+  async post<T>(url: string, body: unknown, options: Pick<RequestOptions, 'signal' | 'retries'> = {}): Promise<T> {
+    const token = await this.tokenManager.getToken();
+    const response = await this.httpClient.request<T>(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body,
+      ...options
+    });
+    return response.data;
+  }
+
   private notifyProgress(progress: UploadProgress): void {
+    if (progress.phase !== this.phase) {
+      this.phase = progress.phase;
+      if (progress.phase === 'uploading') this.throughput.reset(progress.loaded);
+      this.config.onPhase?.(progress.phase);
+    }
+    this.percentage = Math.max(this.percentage, progress.percentage);
+
     // Prefer new callback; keep alias for backwards compatibility inside new SDK
-    if (this.config.onUploadProgress) this.config.onUploadProgress(progress.percentage);
-    else if (this.config.onProgress) this.config.onProgress(progress.percentage);
+    if (this.config.onUploadProgress) this.config.onUploadProgress(this.percentage);
+    else if (this.config.onProgress) this.config.onProgress(this.percentage);
+
+    if (this.config.onUploadProgressDetailed) {
+      const bytesPerSecond = progress.phase === 'uploading' ? this.throughput.update(progress.loaded) : 0;
+      const remaining = Math.max(0, progress.total - progress.loaded);
+      this.config.onUploadProgressDetailed({
+        ...progress,
+        percentage: this.percentage,
+        bytesPerSecond,
+        estimatedSecondsRemaining: progress.phase === 'completing'
+          ? 0
+          : bytesPerSecond > 0 ? remaining / bytesPerSecond : null
+      });
+    }
   }
 
   private getFileExtension(format: string): string {
@@ -229,6 +796,7 @@ export class VocaFuseUploader {
       case 'webm': return 'webm';
       case 'ogg': return 'ogg';
       case 'mp4': return 'mp4';
+      case 'wav': return 'wav';
       default: return 'webm';
     }
   }
@@ -0,0 +1,112 @@
+/**
+ * VocaFuse Voice Activity Detection
+ *
+ * Energy-based speech detection driven by the RMS levels reported by
+ * the level meter. Used to auto-start on speech and auto-stop on silence.
+ */
+
+export interface VADOptions {
+  threshold?: number; // RMS level treated as speech, 0..1 (default: 0.02)
+  minSpeechDuration?: number; // Seconds above threshold before speech is confirmed (default: 0.1)
+  speechEndDelay?: number; // Seconds below threshold before speech is considered ended (default: 0.3)
+  silenceDuration?: number; // Seconds of trailing silence before auto-stop (default: 2)
+  autoStop?: boolean; // Stop the recording after trailing silence (default: true)
+  autoStart?: boolean; // Wait for speech before recording starts (default: false)
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface VoiceActivityDetectorConfig extends VADOptions {
+  onSilence?: () => void; // Trailing silence exceeded silenceDuration
+  onVoiceOnset?: () => void; // Level crossed the threshold; speech not confirmed yet
+  onVoiceDropped?: () => void; // The level fell back before minSpeechDuration
+}
+
+export class VoiceActivityDetector {
+  private readonly config: Required<VoiceActivityDetectorConfig>;
+  private speaking = false;
+  private hasSpoken = false;
+  private silenceReported = false;
+  private voicedSince: number | null = null;
+  private silentSince: number | null = null;
+
+  constructor(config: VoiceActivityDetectorConfig = {}) {
+    this.config = {
+      threshold: 0.02,
+      minSpeechDuration: 0.1,
+      speechEndDelay: 0.3,
+      silenceDuration: 2,
+      autoStop: true,
+      autoStart: false,
+      onSpeechStart: () => {},
+      onSpeechEnd: () => {},
+      onSilence: () => {},
+      onVoiceOnset: () => {},
+      onVoiceDropped: () => {},
+      ...config
+    };
+  }
+
+  /**
+   * Whether speech is currently detected
+   */
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Feed one RMS measurement into the detector
+   */
+  process(rms: number, now: number = Date.now()): void {
+    if (rms >= this.config.threshold) {
+      this.silentSince = null;
+      if (this.voicedSince === null) {
+        this.voicedSince = now;
+        if (!this.speaking) this.config.onVoiceOnset();
+      }
+
+      if (!this.speaking && now - this.voicedSince >= this.config.minSpeechDuration * 1000) {
+        this.speaking = true;
+        this.hasSpoken = true;
+        this.silenceReported = false;
+        this.config.onSpeechStart();
+      }
+      return;
+    }
+
+    if (this.voicedSince !== null && !this.speaking) this.config.onVoiceDropped();
+    this.voicedSince = null;
+    if (this.silentSince === null) this.silentSince = now;
+    const silentFor = now - this.silentSince;
+
+    if (this.speaking && silentFor >= this.config.speechEndDelay * 1000) {
+      this.speaking = false;
+      this.config.onSpeechEnd();
+    }
+
+    // Only trailing silence counts: nothing is reported before the first speech
+    if (this.hasSpoken && !this.speaking && !this.silenceReported && silentFor >= this.config.silenceDuration * 1000) {
+      this.silenceReported = true;
+      this.config.onSilence();
+    }
+  }
+
+  /**
+   * Restart silence timing, e.g. after the recording was paused
+   */
+  resume(now: number = Date.now()): void {
+    this.voicedSince = null;
+    this.silentSince = this.speaking ? null : now;
+  }
+
+  /**
+   * Forget all detection state
+   */
+  reset(): void {
+    this.speaking = false;
+    this.hasSpoken = false;
+    this.silenceReported = false;
+    this.voicedSince = null;
+    this.silentSince = null;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * VocaFuse WAV Encoding
+ *
+ * 16-bit PCM RIFF/WAVE helpers shared by the WAV engine, persistence
+ * recovery and trimming.
+ */
+
+export const WAV_BITS_PER_SAMPLE = 16;
+
+/**
+ * Build a canonical 44-byte RIFF/WAVE header for 16-bit PCM
+ */
+export function createWavHeader(dataLength: number, sampleRate: number, channels: number = 1): ArrayBuffer {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+  const blockAlign = channels * (WAV_BITS_PER_SAMPLE / 8);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, WAV_BITS_PER_SAMPLE, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return buffer;
+}
+
+/**
+ * Convert float samples (-1..1) to clamped 16-bit PCM
+ */
+export function floatTo16BitPcm(samples: ArrayLike<number>) {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+/**
+ * Encode decoded audio as a 16-bit PCM WAV file, keeping all channels
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels;
+  const interleaved = new Float32Array(buffer.length * channels);
+  for (let c = 0; c < channels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < buffer.length; i++) interleaved[i * channels + c] = data[i];
+  }
+
+  const pcm = floatTo16BitPcm(interleaved);
+  return new Blob([createWavHeader(pcm.byteLength, buffer.sampleRate, channels), pcm], { type: 'audio/wav' });
+}
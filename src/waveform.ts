@@ -0,0 +1,46 @@
+/**
+ * VocaFuse Waveform Peaks
+ *
+ * Downsamples decoded audio into a fixed number of peak values for display.
+ */
+
+import { decodeAudioBlob } from './audio-context.js';
+
+/**
+ * Compute peak amplitudes (0..1) for `bucketCount` equal slices of the buffer
+ */
+export function computePeaks(buffer: AudioBuffer, bucketCount: number): number[] {
+  const length = buffer.length;
+  if (length === 0 || bucketCount <= 0) return [];
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const bucketSize = length / bucketCount;
+  const peaks: number[] = [];
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.floor(bucket * bucketSize);
+    const end = Math.max(start + 1, Math.floor((bucket + 1) * bucketSize));
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        const magnitude = Math.abs(data[i]);
+        if (magnitude > peak) peak = magnitude;
+      }
+    }
+    peaks.push(Math.min(peak, 1));
+  }
+
+  return peaks;
+}
+
+/**
+ * Decode a recording and compute its waveform peaks.
+ * Resolves to an empty array when the browser cannot decode the format.
+ */
+export async function computeBlobPeaks(blob: Blob, bucketCount: number): Promise<number[]> {
+  try {
+    return computePeaks(await decodeAudioBlob(blob), bucketCount);
+  } catch (_error) {
+    return [];
+  }
+}
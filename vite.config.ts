@@ -2,33 +2,61 @@ import { defineConfig } from 'vite'
 import dts from 'vite-plugin-dts'
 import { resolve } from 'path'
 
-export default defineConfig({
-  plugins: [
-    dts({
-      insertTypesEntry: true,
-      include: ['src/**/*'],
-      exclude: ['src/**/*.test.ts', 'src/**/*.spec.ts']
-    })
-  ],
-  build: {
-    lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
-      name: 'VocaFuseSDK',
-      formats: ['es', 'umd'],
-      fileName: (format) => `index.${format}.js`
-    },
-    rollupOptions: {
-      external: [],
-      output: {
-        globals: {}
+export default defineConfig(({ mode }) => {
+  // `vite build --mode react` builds the vocafuse/react entry next to the main bundle.
+  // It imports the SDK from 'vocafuse' so apps share one copy.
+  if (mode === 'react') {
+    return {
+      plugins: [
+        {
+          name: 'vocafuse-external',
+          enforce: 'pre',
+          resolveId: (source: string) => (source === './index.js' ? { id: 'vocafuse', external: true } : null)
+        }
+      ],
+      build: {
+        lib: {
+          entry: resolve(__dirname, 'src/react.ts'),
+          formats: ['es', 'cjs'],
+          // .cjs: the package is "type": "module", so a .js file would be loaded as ESM
+          fileName: (format) => (format === 'es' ? 'react.es.js' : 'react.cjs')
+        },
+        rollupOptions: {
+          external: ['react']
+        },
+        emptyOutDir: false,
+        sourcemap: true,
+        minify: 'esbuild'
       }
+    }
+  }
+
+  return {
+    plugins: [
+      dts({
+        insertTypesEntry: true,
+        include: ['src/**/*'],
+        exclude: ['src/**/*.test.ts', 'src/**/*.spec.ts']
+      })
+    ],
+    build: {
+      lib: {
+        entry: resolve(__dirname, 'src/index.ts'),
+        name: 'VocaFuseSDK',
+        formats: ['es', 'umd'],
+        fileName: (format) => `index.${format}.js`
+      },
+      rollupOptions: {
+        external: [],
+        output: {
+          globals: {}
+        }
+      },
+      sourcemap: true,
+      minify: 'esbuild'
     },
-    sourcemap: true,
-    minify: 'esbuild'
-  },
-  define: {
-    'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV || 'production')
+    define: {
+      'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV || 'production')
+    }
   }
 })
-
-